@@ -5,18 +5,33 @@ import type {
   TraversalContext,
   SimplifiedNode,
 } from "./types.js";
-import { buildSimplifiedLayout } from "~/transformers/layout.js";
-import { buildSimplifiedStrokes, parsePaint } from "~/transformers/style.js";
+import { buildSimplifiedLayout, buildSimplifiedLayoutGrids } from "~/transformers/layout.js";
+import { buildSimplifiedStrokes, convertBlendMode, parsePaint } from "~/transformers/style.js";
 import { buildSimplifiedEffects } from "~/transformers/effects.js";
 import {
   extractNodeText,
+  extractTextLines,
+  extractTextSegments,
+  extractTextSizing,
   extractTextStyle,
+  formatHyperlink,
   hasTextStyle,
   isTextNode,
+  simplifyTypeStyle,
+  type SimplifiedTextSegment,
 } from "~/transformers/text.js";
-import { hasValue, isRectangleCornerRadii } from "~/utils/identity.js";
-import { generateVarId } from "~/utils/common.js";
-import type { Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { simplifyBoundVariable } from "~/transformers/variables.js";
+import { buildSimplifiedInteractions } from "~/transformers/interactions.js";
+import { hasValue, isRectangle, isRectangleCornerRadii } from "~/utils/identity.js";
+import { generateVarId, isVisible } from "~/utils/common.js";
+import type {
+  IsLayerTrait,
+  Node as FigmaDocumentNode,
+  Paint,
+  VariableAlias,
+} from "@figma/rest-api-spec";
+
+type BoundVariables = NonNullable<IsLayerTrait["boundVariables"]>;
 
 /**
  * Helper function to find or create a global variable.
@@ -38,6 +53,61 @@ function findOrCreateVar(globalVars: GlobalVars, value: StyleTypes, prefix: stri
   return varId;
 }
 
+/**
+ * Helper function to find or create a global entry for a bound variable.
+ *
+ * Returns the variable name when metadata is available, otherwise the raw variable ID.
+ */
+function findOrCreateVariableRef(globalVars: TraversalContext["globalVars"], id: string): string {
+  const metadata = globalVars.variableMetadata;
+  const variable = metadata ? simplifyBoundVariable(id, metadata) : undefined;
+  if (!variable) return id;
+
+  globalVars.variables ??= {};
+  // Names are only unique within a collection, so fall back to the ID on a clash
+  const existing = globalVars.variables[variable.name];
+  const key = !existing || existing.id === id ? variable.name : id;
+  globalVars.variables[key] = variable;
+  return key;
+}
+
+/**
+ * Helper function to record variables bound to node properties on the result.
+ */
+function bindVariables(
+  result: SimplifiedNode,
+  context: TraversalContext,
+  bindings: Record<string, VariableAlias | (VariableAlias | undefined)[] | undefined>,
+): void {
+  for (const [property, binding] of Object.entries(bindings)) {
+    if (!binding || (Array.isArray(binding) && !binding.some(Boolean))) continue;
+    const refs = (Array.isArray(binding) ? binding : [binding]).map((alias) =>
+      alias ? findOrCreateVariableRef(context.globalVars, alias.id) : null,
+    );
+    result.boundVariables = {
+      ...result.boundVariables,
+      [property]: Array.isArray(binding) ? refs : refs[0]!,
+    };
+  }
+}
+
+function getBoundVariables(node: FigmaDocumentNode): BoundVariables {
+  return hasValue("boundVariables", node) ? (node.boundVariables as BoundVariables) : {};
+}
+
+// Color variables bound to individual paints, one entry per paint in Figma's order (undefined
+// when unbound). The node-level list is used when no paint carries its own binding, and callers
+// filter and reorder the result the same way as the simplified list it describes.
+function getPaintBindings(
+  paints: Paint[],
+  fallback?: VariableAlias[],
+): (VariableAlias | undefined)[] {
+  const bindings = paints.map((paint) =>
+    "boundVariables" in paint ? paint.boundVariables?.color : undefined,
+  );
+  return bindings.some(Boolean) ? bindings : paints.map((_, index) => fallback?.[index]);
+}
+
 /**
  * Extracts layout-related properties from a node.
  */
@@ -46,6 +116,33 @@ export const layoutExtractor: ExtractorFn = (node, result, context) => {
   if (Object.keys(layout).length > 1) {
     result.layout = findOrCreateVar(context.globalVars, layout, "layout");
   }
+
+  const layoutGrids = buildSimplifiedLayoutGrids(node, (id) =>
+    findOrCreateVariableRef(context.globalVars, id),
+  );
+  if (layoutGrids.length > 0) {
+    // Stretch grids are sized from the frame, so frames with the same grid style can still have
+    // different grids; dedupe by value and keep the style name as a label
+    result.layoutGrids = findOrCreateVar(context.globalVars, layoutGrids, "grid");
+    const styleName = getStyleName(node, context, ["grid"]);
+    if (styleName) result.layoutGridStyle = styleName;
+  }
+
+  const boundVariables = getBoundVariables(node);
+  bindVariables(result, context, {
+    gap: boundVariables.itemSpacing,
+    counterAxisGap: boundVariables.counterAxisSpacing,
+    paddingTop: boundVariables.paddingTop,
+    paddingRight: boundVariables.paddingRight,
+    paddingBottom: boundVariables.paddingBottom,
+    paddingLeft: boundVariables.paddingLeft,
+    width: boundVariables.size?.x,
+    height: boundVariables.size?.y,
+    minWidth: boundVariables.minWidth,
+    maxWidth: boundVariables.maxWidth,
+    minHeight: boundVariables.minHeight,
+    maxHeight: boundVariables.maxHeight,
+  });
 };
 
 /**
@@ -55,6 +152,10 @@ export const textExtractor: ExtractorFn = (node, result, context) => {
   // Extract text content
   if (isTextNode(node)) {
     result.text = extractNodeText(node);
+    result.textLines = extractTextLines(node);
+    Object.assign(result, extractTextSizing(node));
+    // A link on the whole node; partial links are kept on text segments
+    if (node.style.hyperlink) result.hyperlink = formatHyperlink(node.style.hyperlink);
   }
 
   // Extract text style
@@ -71,6 +172,29 @@ export const textExtractor: ExtractorFn = (node, result, context) => {
       }
     }
   }
+
+  // Extract mixed styles within the text
+  const segments = extractTextSegments(node);
+  if (segments && hasTextStyle(node)) {
+    const baseStyle = JSON.stringify(extractTextStyle(node));
+    result.textSegments = segments.map(({ characters, override }) => {
+      const segment: SimplifiedTextSegment = { text: characters };
+      if (!override) return segment;
+
+      const segmentStyle = simplifyTypeStyle({ ...node.style, ...override });
+      if (JSON.stringify(segmentStyle) !== baseStyle) {
+        segment.textStyle = findOrCreateVar(context.globalVars, segmentStyle, "style");
+      }
+      if (override.fills?.length) {
+        const fills = override.fills.filter(isVisible).map((fill) => parsePaint(fill)).reverse();
+        segment.fills = findOrCreateVar(context.globalVars, fills, "fill");
+      }
+      if (override.hyperlink) {
+        segment.hyperlink = formatHyperlink(override.hyperlink);
+      }
+      return segment;
+    });
+  }
 };
 
 /**
@@ -81,9 +205,17 @@ export const visualsExtractor: ExtractorFn = (node, result, context) => {
   const hasChildren =
     hasValue("children", node) && Array.isArray(node.children) && node.children.length > 0;
 
+  // Stretched image fills are rendered at the node's proportions
+  const aspectRatio =
+    isRectangle("absoluteBoundingBox", node) && node.absoluteBoundingBox.height > 0
+      ? node.absoluteBoundingBox.width / node.absoluteBoundingBox.height
+      : undefined;
+
   // fills
-  if (hasValue("fills", node) && Array.isArray(node.fills) && node.fills.length) {
-    const fills = node.fills.map((fill) => parsePaint(fill, hasChildren)).reverse();
+  const fillPaints =
+    hasValue("fills", node) && Array.isArray(node.fills) ? (node.fills as Paint[]) : [];
+  if (fillPaints.length) {
+    const fills = fillPaints.map((fill) => parsePaint(fill, hasChildren, aspectRatio)).reverse();
     const styleName = getStyleName(node, context, ["fill", "fills"]);
     if (styleName) {
       context.globalVars.styles[styleName] = fills;
@@ -112,14 +244,11 @@ export const visualsExtractor: ExtractorFn = (node, result, context) => {
   // effects
   const effects = buildSimplifiedEffects(node);
   if (Object.keys(effects).length) {
+    // The same effect style gives text shadows on text, drops spread where Figma ignores it and
+    // sizes progressive blurs to the node; dedupe by value and keep the style name as a label
+    result.effects = findOrCreateVar(context.globalVars, effects, "effect");
     const styleName = getStyleName(node, context, ["effect", "effects"]);
-    if (styleName) {
-      // Effects styles store only the effect values
-      context.globalVars.styles[styleName] = effects;
-      result.effects = styleName;
-    } else {
-      result.effects = findOrCreateVar(context.globalVars, effects, "effect");
-    }
+    if (styleName) result.effectStyle = styleName;
   }
 
   // opacity
@@ -127,6 +256,12 @@ export const visualsExtractor: ExtractorFn = (node, result, context) => {
     result.opacity = node.opacity;
   }
 
+  // blend mode
+  if ("blendMode" in node) {
+    const blendMode = convertBlendMode(node.blendMode);
+    if (blendMode) result.blendMode = blendMode;
+  }
+
   // border radius
   if (hasValue("cornerRadius", node) && typeof node.cornerRadius === "number") {
     result.borderRadius = `${node.cornerRadius}px`;
@@ -134,6 +269,43 @@ export const visualsExtractor: ExtractorFn = (node, result, context) => {
   if (hasValue("rectangleCornerRadii", node, isRectangleCornerRadii)) {
     result.borderRadius = `${node.rectangleCornerRadii[0]}px ${node.rectangleCornerRadii[1]}px ${node.rectangleCornerRadii[2]}px ${node.rectangleCornerRadii[3]}px`;
   }
+
+  // bound variables
+  const boundVariables = getBoundVariables(node);
+  const strokePaints =
+    hasValue("strokes", node) && Array.isArray(node.strokes) ? (node.strokes as Paint[]) : [];
+  const cornerRadii = boundVariables.rectangleCornerRadii;
+  bindVariables(result, context, {
+    // Same order as the simplified fills, and the same filter as buildSimplifiedStrokes
+    fills: getPaintBindings(fillPaints, boundVariables.fills).reverse(),
+    strokes: getPaintBindings(strokePaints, boundVariables.strokes).filter((_, index) =>
+      isVisible(strokePaints[index]),
+    ),
+    effects: boundVariables.effects,
+    opacity: boundVariables.opacity,
+    borderTopLeftRadius:
+      boundVariables.topLeftRadius ?? cornerRadii?.RECTANGLE_TOP_LEFT_CORNER_RADIUS,
+    borderTopRightRadius:
+      boundVariables.topRightRadius ?? cornerRadii?.RECTANGLE_TOP_RIGHT_CORNER_RADIUS,
+    borderBottomRightRadius:
+      boundVariables.bottomRightRadius ?? cornerRadii?.RECTANGLE_BOTTOM_RIGHT_CORNER_RADIUS,
+    borderBottomLeftRadius:
+      boundVariables.bottomLeftRadius ?? cornerRadii?.RECTANGLE_BOTTOM_LEFT_CORNER_RADIUS,
+  });
+
+  // variable modes set on this node apply to the whole subtree
+  if (hasValue("explicitVariableModes", node)) {
+    const modes = node.explicitVariableModes as Record<string, string>;
+    const collections = context.globalVars.variableMetadata?.collections;
+    for (const [collectionId, modeId] of Object.entries(modes)) {
+      const collection = collections?.[collectionId];
+      // Keep raw IDs when variable metadata is unavailable
+      result.variableModes = {
+        ...result.variableModes,
+        [collection?.name ?? collectionId]: collection?.modes[modeId] ?? modeId,
+      };
+    }
+  }
 };
 
 /**
@@ -158,6 +330,16 @@ export const componentExtractor: ExtractorFn = (node, result, _context) => {
   }
 };
 
+/**
+ * Extracts prototype interactions (triggers, actions and transitions) from a node.
+ */
+export const interactionsExtractor: ExtractorFn = (node, result, context) => {
+  const interactions = buildSimplifiedInteractions(node, context.globalVars.nodeNames);
+  if (interactions) {
+    result.interactions = interactions;
+  }
+};
+
 // Helper to fetch a Figma style name for specific style keys on a node
 function getStyleName(
   node: FigmaDocumentNode,
@@ -181,7 +363,13 @@ function getStyleName(
 /**
  * All extractors - replicates the current parseNode behavior.
  */
-export const allExtractors = [layoutExtractor, textExtractor, visualsExtractor, componentExtractor];
+export const allExtractors = [
+  layoutExtractor,
+  textExtractor,
+  visualsExtractor,
+  componentExtractor,
+  interactionsExtractor,
+];
 
 /**
  * Layout and text only - useful for content analysis and layout planning.
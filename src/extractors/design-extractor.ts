@@ -6,25 +6,49 @@ import type {
   ComponentSet,
   Style,
 } from "@figma/rest-api-spec";
-import { simplifyComponents, simplifyComponentSets } from "~/transformers/component.js";
+import {
+  parseVariantProperties,
+  simplifyComponents,
+  simplifyComponentSets,
+  simplifyPropertyDefinitions,
+} from "~/transformers/component.js";
+import type { SimplifiedVariables } from "~/transformers/variables.js";
 import { isVisible } from "~/utils/common.js";
-import type { ExtractorFn, TraversalOptions, SimplifiedDesign, TraversalContext } from "./types.js";
+import type {
+  ExtractorFn,
+  TraversalOptions,
+  SimplifiedDesign,
+  TraversalContext,
+  SimplifiedComponentEntry,
+  SimplifiedComponentLibrary,
+  SimplifiedNode,
+} from "./types.js";
 import { extractFromDesign } from "./node-walker.js";
 
 /**
  * Extract a complete SimplifiedDesign from raw Figma API response using extractors.
+ *
+ * @param variableMetadata - Optional variables from the Variables API, used to name bound variables.
+ * Without it, bound variables are referenced by ID.
  */
 export function simplifyRawFigmaObject(
   apiResponse: GetFileResponse | GetFileNodesResponse,
   nodeExtractors: ExtractorFn[],
   options: TraversalOptions = {},
+  variableMetadata?: SimplifiedVariables,
 ): SimplifiedDesign {
   // Extract components, componentSets, and raw nodes from API response
   const { metadata, rawNodes, components, componentSets, extraStyles } =
     parseAPIResponse(apiResponse);
+  const nodeNames = indexNodeNames(rawNodes);
 
   // Process nodes using the flexible extractor system
-  const globalVars: TraversalContext["globalVars"] = { styles: {}, extraStyles };
+  const globalVars: TraversalContext["globalVars"] = {
+    styles: {},
+    extraStyles,
+    variableMetadata,
+    nodeNames,
+  };
   const { nodes: extractedNodes, globalVars: finalGlobalVars } = extractFromDesign(
     rawNodes,
     nodeExtractors,
@@ -38,7 +62,75 @@ export function simplifyRawFigmaObject(
     nodes: extractedNodes,
     components: simplifyComponents(components),
     componentSets: simplifyComponentSets(componentSets),
-    globalVars: { styles: finalGlobalVars.styles },
+    globalVars: {
+      styles: finalGlobalVars.styles,
+      ...(finalGlobalVars.variables && { variables: finalGlobalVars.variables }),
+    },
+  };
+}
+
+/**
+ * Extract full component and variant definitions from raw Figma API response using extractors.
+ *
+ * Every COMPONENT_SET and standalone COMPONENT in the response is returned with its property
+ * definitions, and each variant with its property combination and simplified node tree.
+ */
+export function simplifyComponentDefinitions(
+  apiResponse: GetFileResponse | GetFileNodesResponse,
+  nodeExtractors: ExtractorFn[],
+  options: TraversalOptions = {},
+): SimplifiedComponentLibrary {
+  const { metadata, rawNodes, components, componentSets, extraStyles } =
+    parseAPIResponse(apiResponse);
+
+  const globalVars: TraversalContext["globalVars"] = {
+    styles: {},
+    extraStyles,
+    nodeNames: indexNodeNames(rawNodes),
+  };
+  const simplifyTree = (node: FigmaDocumentNode): SimplifiedNode | undefined =>
+    extractFromDesign([node], nodeExtractors, options, globalVars).nodes[0];
+
+  const entries: SimplifiedComponentEntry[] = [];
+  const visit = (node: FigmaDocumentNode) => {
+    if (node.type === "COMPONENT_SET") {
+      entries.push({
+        id: node.id,
+        key: componentSets[node.id]?.key,
+        name: node.name,
+        type: node.type,
+        description: componentSets[node.id]?.description || undefined,
+        propertyDefinitions: simplifyPropertyDefinitions(node.componentPropertyDefinitions ?? {}),
+        variants: node.children
+          .filter((child) => child.type === "COMPONENT")
+          .map((variant) => ({
+            id: variant.id,
+            name: variant.name,
+            properties: parseVariantProperties(variant.name),
+            description: components[variant.id]?.description || undefined,
+            node: simplifyTree(variant),
+          })),
+      });
+    } else if (node.type === "COMPONENT") {
+      entries.push({
+        id: node.id,
+        key: components[node.id]?.key,
+        name: node.name,
+        type: node.type,
+        description: components[node.id]?.description || undefined,
+        propertyDefinitions: simplifyPropertyDefinitions(node.componentPropertyDefinitions ?? {}),
+        node: simplifyTree(node),
+      });
+    } else if ("children" in node) {
+      node.children.forEach(visit);
+    }
+  };
+  rawNodes.forEach(visit);
+
+  return {
+    ...metadata,
+    components: entries,
+    globalVars: { styles: globalVars.styles },
   };
 }
 
@@ -88,3 +180,16 @@ function parseAPIResponse(data: GetFileResponse | GetFileNodesResponse) {
     componentSets: aggregatedComponentSets,
   };
 }
+
+/**
+ * Map every node ID in the tree to its name, so references between nodes can be named.
+ */
+function indexNodeNames(nodes: FigmaDocumentNode[]): Record<string, string> {
+  const names: Record<string, string> = {};
+  const visit = (node: FigmaDocumentNode) => {
+    names[node.id] = node.name;
+    if ("children" in node) node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return names;
+}
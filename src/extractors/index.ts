@@ -11,7 +11,7 @@ export type {
 export { extractFromDesign } from "./node-walker.js";
 
 // Design-level extraction (unified nodes + components)
-export { simplifyRawFigmaObject } from "./design-extractor.js";
+export { simplifyRawFigmaObject, simplifyComponentDefinitions } from "./design-extractor.js";
 
 // Built-in extractors and afterChildren helpers
 export {
@@ -19,6 +19,7 @@ export {
   textExtractor,
   visualsExtractor,
   componentExtractor,
+  interactionsExtractor,
   // Convenience combinations
   allExtractors,
   layoutAndText,
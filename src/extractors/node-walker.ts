@@ -6,9 +6,56 @@ import type {
   TraversalContext,
   TraversalOptions,
   GlobalVars,
+  SimplifiedMask,
   SimplifiedNode,
+  SimplifiedOverride,
 } from "./types.js";
 
+type InstanceNode = Extract<FigmaDocumentNode, { type: "INSTANCE" }>;
+
+/**
+ * Maps overridden Figma fields to the SimplifiedNode keys that carry their values.
+ * Fields not listed here are still reported by name in overriddenFields.
+ */
+const OVERRIDE_FIELD_KEYS: Record<string, (keyof SimplifiedNode & keyof SimplifiedOverride)[]> = {
+  characters: ["text", "textSegments"],
+  fills: ["fills"],
+  fillStyleId: ["fills"],
+  strokes: ["strokes", "strokeWeight", "strokeDashes", "strokeWeights"],
+  strokeStyleId: ["strokes"],
+  strokeWeight: ["strokes", "strokeWeight", "strokeWeights"],
+  strokeDashes: ["strokes", "strokeDashes"],
+  effects: ["effects", "effectStyle"],
+  effectStyleId: ["effects", "effectStyle"],
+  opacity: ["opacity"],
+  blendMode: ["blendMode"],
+  cornerRadius: ["borderRadius"],
+  rectangleCornerRadii: ["borderRadius"],
+  style: ["textStyle", "textAutoResize", "textOverflow", "lineClamp"],
+  textStyleId: ["textStyle"],
+  fontSize: ["textStyle"],
+  fontName: ["textStyle"],
+  fontFamily: ["textStyle"],
+  fontWeight: ["textStyle"],
+  letterSpacing: ["textStyle"],
+  lineHeight: ["textStyle"],
+  textCase: ["textStyle"],
+  textDecoration: ["textStyle"],
+  paragraphSpacing: ["textStyle"],
+  paragraphIndent: ["textStyle"],
+  listSpacing: ["textStyle"],
+  textAutoResize: ["textAutoResize", "textOverflow"],
+  textTruncation: ["textOverflow", "lineClamp"],
+  maxLines: ["lineClamp"],
+  opentypeFlags: ["textStyle"],
+  lineTypes: ["textLines"],
+  lineIndentations: ["textLines"],
+  hyperlink: ["hyperlink", "textSegments"],
+  componentProperties: ["componentProperties"],
+  mainComponent: ["componentId", "componentProperties"],
+  boundVariables: ["boundVariables"],
+};
+
 /**
  * Extract data from Figma nodes using a flexible, single-pass approach.
  *
@@ -28,6 +75,9 @@ export function extractFromDesign(
     globalVars,
     currentDepth: 0,
   };
+  if (options.instanceOverridesOnly) {
+    context.componentNodeIds = collectComponentNodeIds(nodes, options);
+  }
 
   const processedNodes = nodes
     .filter((node) => shouldProcessNode(node, options))
@@ -57,14 +107,25 @@ function processNodeWithExtractors(
   const result: SimplifiedNode = {
     id: node.id,
     name: node.name,
-    type: node.type === "VECTOR" ? "IMAGE-SVG" : node.type,
+    // Boolean operations render as one shape, so they're exported as a single vector asset
+    type: node.type === "VECTOR" || node.type === "BOOLEAN_OPERATION" ? "IMAGE-SVG" : node.type,
   };
+  if (node.type === "BOOLEAN_OPERATION") {
+    result.booleanOperation =
+      node.booleanOperation.toLowerCase() as SimplifiedNode["booleanOperation"];
+  }
+  const mask = getMask(node);
+  if (mask) result.mask = mask;
 
   // Apply all extractors to this node in a single pass
   for (const extractor of extractors) {
     extractor(node, result, context);
   }
 
+  if (options.instanceOverridesOnly && isKnownInstance(node, context)) {
+    return processInstanceOverrides(node, result, extractors, context, options);
+  }
+
   // Handle children recursively
   if (shouldTraverseChildren(node, context, options)) {
     const childContext: TraversalContext = {
@@ -75,10 +136,7 @@ function processNodeWithExtractors(
 
     // Use the same pattern as the existing parseNode function
     if (hasValue("children", node) && node.children.length > 0) {
-      const children = node.children
-        .filter((child) => shouldProcessNode(child, options))
-        .map((child) => processNodeWithExtractors(child, extractors, childContext, options))
-        .filter((child): child is SimplifiedNode => child !== null);
+      const children = processChildren(node.children, extractors, childContext, options);
 
       if (children.length > 0) {
         // Allow custom logic to modify parent and control which children to include
@@ -96,6 +154,261 @@ function processNodeWithExtractors(
   return result;
 }
 
+function processChildren(
+  nodes: FigmaDocumentNode[],
+  extractors: ExtractorFn[],
+  context: TraversalContext,
+  options: TraversalOptions,
+): SimplifiedNode[] {
+  const children = nodes.map((child) =>
+    processNodeWithExtractors(child, extractors, context, options),
+  );
+  linkMaskedSiblings(nodes, children);
+  return children.filter((child): child is SimplifiedNode => child !== null);
+}
+
+function getMask(node: FigmaDocumentNode): SimplifiedMask | undefined {
+  if (!hasValue("isMask", node) || !node.isMask) return undefined;
+  const maskType =
+    hasValue("maskType", node) && typeof node.maskType === "string"
+      ? node.maskType
+      : hasValue("isMaskOutline", node) && node.isMaskOutline
+        ? "VECTOR"
+        : "ALPHA";
+  return { type: maskType.toLowerCase() as SimplifiedMask["type"] };
+}
+
+/**
+ * A mask clips every sibling above it in the layer list, up to the next mask.
+ * Children are in Figma's bottom-to-top order, so masked siblings follow their mask. Masks that
+ * aren't emitted, such as hidden ones, clip nothing but still end the run of the mask below.
+ */
+function linkMaskedSiblings(nodes: FigmaDocumentNode[], children: (SimplifiedNode | null)[]): void {
+  let maskId: string | undefined;
+  nodes.forEach((node, index) => {
+    const child = children[index];
+    if (hasValue("isMask", node) && node.isMask) {
+      maskId = child?.id;
+    } else if (child && maskId) {
+      child.maskedBy = maskId;
+    }
+  });
+}
+
+/**
+ * Check if a node is an instance whose main component is emitted by this traversal, so its
+ * unchanged subtree can be looked up from the component instead of being repeated. Components
+ * that are only listed in the response metadata, such as library components, don't count.
+ */
+function isKnownInstance(node: FigmaDocumentNode, context: TraversalContext): node is InstanceNode {
+  return node.type === "INSTANCE" && !!context.componentNodeIds?.has(node.componentId);
+}
+
+/**
+ * Collect the IDs of COMPONENT nodes that the traversal will emit, applying the same filters and
+ * depth limit.
+ */
+function collectComponentNodeIds(
+  nodes: FigmaDocumentNode[],
+  options: TraversalOptions,
+): Set<string> {
+  const ids = new Set<string>();
+
+  const visit = (node: FigmaDocumentNode, depth: number) => {
+    if (!shouldProcessNode(node, options)) return;
+    if (node.type === "COMPONENT") ids.add(node.id);
+    // Instances and boolean operations can't contain components
+    if (node.type === "INSTANCE" || node.type === "BOOLEAN_OPERATION") return;
+    if (options.maxDepth !== undefined && depth >= options.maxDepth) return;
+    if (hasValue("children", node)) node.children.forEach((child) => visit(child, depth + 1));
+  };
+  nodes.forEach((node) => visit(node, 0));
+
+  return ids;
+}
+
+/**
+ * Emit only the overrides of an instance, plus its slot-like descendants as children.
+ */
+function processInstanceOverrides(
+  node: InstanceNode,
+  result: SimplifiedNode,
+  extractors: ExtractorFn[],
+  context: TraversalContext,
+  options: TraversalOptions,
+): SimplifiedNode {
+  const childContext: TraversalContext = {
+    ...context,
+    currentDepth: context.currentDepth + 1,
+    parent: node,
+  };
+
+  const overrides = (node.overrides ?? [])
+    // The instance's own overrides are already covered by componentProperties
+    .filter((override) => override.id !== node.id && override.overriddenFields.length > 0)
+    .map(({ id, overriddenFields }) => {
+      const match = findDescendant(node, id);
+      return match
+        ? buildOverride(match.node, overriddenFields, extractors, {
+            ...childContext,
+            currentDepth: context.currentDepth + match.depth,
+            parent: match.parent,
+          })
+        : null;
+    })
+    .filter((override): override is SimplifiedOverride => override !== null);
+
+  if (overrides.length > 0) {
+    result.overrides = overrides;
+  }
+
+  if (!shouldTraverseChildren(node, context, options)) {
+    return result;
+  }
+
+  // afterChildren sees the full children it would get without instanceOverridesOnly, so icon
+  // instances still collapse to IMAGE-SVG. Their styles go to a scratch copy and are discarded.
+  if (options.afterChildren && hasValue("children", node) && node.children.length > 0) {
+    const children = processChildren(
+      node.children,
+      extractors,
+      { ...childContext, globalVars: createScratchGlobalVars(context.globalVars) },
+      options,
+    );
+    if (children.length > 0 && options.afterChildren(node, result, children).length === 0) {
+      return result;
+    }
+  }
+
+  const slots = findSlotNodes(node)
+    .filter((slot) => shouldProcessNode(slot, options))
+    .map((slot) => processNodeWithExtractors(slot, extractors, childContext, options))
+    .filter((slot): slot is SimplifiedNode => slot !== null);
+
+  if (slots.length > 0) {
+    result.children = slots;
+  }
+
+  return result;
+}
+
+/**
+ * Build the override entry for a node inside an instance, keeping only the overridden values.
+ */
+function buildOverride(
+  target: FigmaDocumentNode,
+  overriddenFields: string[],
+  extractors: ExtractorFn[],
+  context: TraversalContext,
+): SimplifiedOverride {
+  const override: SimplifiedOverride = {
+    id: target.id,
+    name: target.name,
+    overriddenFields,
+  };
+
+  if (!isVisible(target)) {
+    override.hidden = true;
+    return override;
+  }
+
+  // Extractors register styles for every property they see, but only the overridden ones are
+  // emitted, so extract against a scratch copy and keep just the entries the override references
+  const scratch = createScratchGlobalVars(context.globalVars);
+  const extracted: SimplifiedNode = { id: target.id, name: target.name, type: target.type };
+  for (const extractor of extractors) {
+    extractor(target, extracted, { ...context, globalVars: scratch });
+  }
+
+  for (const field of overriddenFields) {
+    for (const key of OVERRIDE_FIELD_KEYS[field] ?? []) {
+      if (extracted[key] !== undefined) {
+        Object.assign(override, { [key]: extracted[key] });
+      }
+    }
+  }
+
+  copyReferencedGlobalVars(override, scratch, context.globalVars);
+  return override;
+}
+
+function createScratchGlobalVars(
+  globalVars: TraversalContext["globalVars"],
+): TraversalContext["globalVars"] {
+  // Existing entries are copied so identical values still resolve to their current IDs
+  return {
+    ...globalVars,
+    styles: { ...globalVars.styles },
+    ...(globalVars.variables && { variables: { ...globalVars.variables } }),
+  };
+}
+
+/**
+ * Copy the styles and variables that `value` refers to from a scratch copy into `globalVars`.
+ */
+function copyReferencedGlobalVars(
+  value: unknown,
+  scratch: TraversalContext["globalVars"],
+  globalVars: TraversalContext["globalVars"],
+): void {
+  if (typeof value === "string") {
+    if (value in scratch.styles && !(value in globalVars.styles)) {
+      globalVars.styles[value] = scratch.styles[value];
+    }
+    if (scratch.variables && value in scratch.variables) {
+      globalVars.variables ??= {};
+      globalVars.variables[value] = scratch.variables[value];
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => copyReferencedGlobalVars(item, scratch, globalVars));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => copyReferencedGlobalVars(item, scratch, globalVars));
+  }
+}
+
+/**
+ * Find a descendant by ID, along with its parent and its depth below `node`.
+ */
+function findDescendant(
+  node: FigmaDocumentNode,
+  id: string,
+  depth = 1,
+): { node: FigmaDocumentNode; parent: FigmaDocumentNode; depth: number } | undefined {
+  if (!hasValue("children", node)) return undefined;
+  for (const child of node.children) {
+    if (child.id === id) return { node: child, parent: node, depth };
+    const match = findDescendant(child, id, depth + 1);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Find the topmost descendants that act as slots: swapped instances bound to an instance swap
+ * property, and nested instances exposed on the parent instance.
+ */
+function findSlotNodes(node: InstanceNode): FigmaDocumentNode[] {
+  const exposed = new Set(node.exposedInstances ?? []);
+  const slots: FigmaDocumentNode[] = [];
+
+  const visit = (current: FigmaDocumentNode) => {
+    if (!hasValue("children", current)) return;
+    for (const child of current.children) {
+      const isSwapSlot =
+        hasValue("componentPropertyReferences", child) &&
+        !!(child.componentPropertyReferences as Record<string, string>).mainComponent;
+      if (isSwapSlot || exposed.has(child.id)) {
+        slots.push(child);
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+
+  return slots;
+}
+
 /**
  * Determine if a node should be processed based on filters.
  */
@@ -126,5 +439,10 @@ function shouldTraverseChildren(
     return false;
   }
 
+  // The operands of a boolean operation are part of its single vector asset
+  if (node.type === "BOOLEAN_OPERATION") {
+    return false;
+  }
+
   return true;
 }
@@ -1,35 +1,58 @@
 import type { Node as FigmaDocumentNode, Style } from "@figma/rest-api-spec";
-import type { SimplifiedTextStyle } from "~/transformers/text.js";
-import type { SimplifiedLayout } from "~/transformers/layout.js";
+import type {
+  SimplifiedTextLine,
+  SimplifiedTextSegment,
+  SimplifiedTextSizing,
+  SimplifiedTextStyle,
+} from "~/transformers/text.js";
+import type { SimplifiedLayout, SimplifiedLayoutGrid } from "~/transformers/layout.js";
 import type { SimplifiedFill, SimplifiedStroke } from "~/transformers/style.js";
 import type { SimplifiedEffects } from "~/transformers/effects.js";
+import type { SimplifiedInteraction } from "~/transformers/interactions.js";
+import type { SimplifiedBoundVariable, SimplifiedVariables } from "~/transformers/variables.js";
 import type {
   ComponentProperties,
   SimplifiedComponentDefinition,
   SimplifiedComponentSetDefinition,
+  SimplifiedPropertyDefinition,
 } from "~/transformers/component.js";
 
 export type StyleTypes =
   | SimplifiedTextStyle
   | SimplifiedFill[]
   | SimplifiedLayout
+  | SimplifiedLayoutGrid[]
   | SimplifiedStroke
   | SimplifiedEffects
   | string;
 
 export type GlobalVars = {
   styles: Record<string, StyleTypes>;
+  variables?: Record<string, SimplifiedBoundVariable>;
 };
 
 export interface TraversalContext {
-  globalVars: GlobalVars & { extraStyles?: Record<string, Style> };
+  globalVars: GlobalVars & {
+    extraStyles?: Record<string, Style>;
+    variableMetadata?: SimplifiedVariables;
+    nodeNames?: Record<string, string>;
+  };
   currentDepth: number;
   parent?: FigmaDocumentNode;
+  // IDs of the COMPONENT nodes emitted by this traversal, set with instanceOverridesOnly
+  componentNodeIds?: Set<string>;
 }
 
 export interface TraversalOptions {
   maxDepth?: number;
   nodeFilter?: (node: FigmaDocumentNode) => boolean;
+  /**
+   * For INSTANCE nodes whose main component node is also emitted by the traversal, omit the
+   * instance's subtree and emit only what differs from the main component (component properties
+   * and overrides). Instances of remote or library components keep their full subtree.
+   * Slot-like descendants (swapped or exposed instances) are still included as children.
+   */
+  instanceOverridesOnly?: boolean;
   /**
    * Called after children are processed, allowing modification of the parent node
    * and control over which children to include in the output.
@@ -67,6 +90,54 @@ export interface SimplifiedDesign {
   globalVars: GlobalVars;
 }
 
+export interface SimplifiedVariant {
+  id: string;
+  name: string;
+  /**
+   * This variant's value for each VARIANT property
+   */
+  properties: Record<string, string>;
+  description?: string;
+  node?: SimplifiedNode;
+}
+
+export interface SimplifiedComponentEntry {
+  id: string;
+  key?: string;
+  name: string;
+  type: "COMPONENT" | "COMPONENT_SET";
+  description?: string;
+  propertyDefinitions?: Record<string, SimplifiedPropertyDefinition>;
+  // Only for component sets
+  variants?: SimplifiedVariant[];
+  // Only for standalone components
+  node?: SimplifiedNode;
+}
+
+export interface SimplifiedComponentLibrary {
+  name: string;
+  components: SimplifiedComponentEntry[];
+  globalVars: GlobalVars;
+}
+
+/**
+ * Properties of a node inside an instance that differ from the main component
+ */
+export type SimplifiedOverride = Partial<
+  Omit<SimplifiedNode, "id" | "name" | "type" | "children" | "overrides">
+> & {
+  id: string;
+  name: string;
+  // Raw Figma field names that were overridden
+  overriddenFields: string[];
+  hidden?: boolean;
+};
+
+export interface SimplifiedMask {
+  // alpha and luminance masks use the mask's pixels, vector masks its outline
+  type: "alpha" | "vector" | "luminance";
+}
+
 export interface SimplifiedNode {
   id: string;
   name: string;
@@ -74,6 +145,17 @@ export interface SimplifiedNode {
   // text
   text?: string;
   textStyle?: string;
+  // Text box sizing and truncation, which vary per node even with the same text style
+  textAutoResize?: SimplifiedTextSizing["textAutoResize"];
+  textOverflow?: SimplifiedTextSizing["textOverflow"];
+  lineClamp?: number;
+  // Styled runs, only present when parts of the text override the node's text style
+  textSegments?: SimplifiedTextSegment[];
+  // List types and indentation of the lines that have them, only present when the text
+  // contains a list or indented lines
+  textLines?: SimplifiedTextLine[];
+  // URL, or target node ID, linked from the whole text node
+  hyperlink?: string;
   // appearance
   fills?: string;
   styles?: string;
@@ -83,13 +165,36 @@ export interface SimplifiedNode {
   strokeDashes?: number[];
   strokeWeights?: string;
   effects?: string;
+  // Name of the Figma effect style the effects come from
+  effectStyle?: string;
   opacity?: number;
+  // CSS mix-blend-mode, when the node doesn't blend normally
+  blendMode?: string;
   borderRadius?: string;
+  // masking: a mask node clips the siblings above it, which reference it through maskedBy
+  mask?: SimplifiedMask;
+  maskedBy?: string;
+  // Set on BOOLEAN_OPERATION nodes, which are emitted as a single IMAGE-SVG asset
+  booleanOperation?: "union" | "subtract" | "intersect" | "exclude";
   // layout & alignment
   layout?: string;
+  // Column/row guides drawn over a frame
+  layoutGrids?: string;
+  // Name of the Figma grid style the guides come from
+  layoutGridStyle?: string;
+  // Figma Variables bound to node properties, keyed by property. Values reference
+  // globalVars.variables, or are raw variable IDs when variable metadata is unavailable.
+  // Paint lists have one entry per fill or stroke, null where the paint has no variable.
+  boundVariables?: Record<string, string | (string | null)[]>;
+  // Explicitly set variable modes, as collection name -> mode name
+  variableModes?: Record<string, string>;
   // for rect-specific strokes, etc.
   componentId?: string;
   componentProperties?: ComponentProperties[];
+  // instance overrides, only emitted with instanceOverridesOnly
+  overrides?: SimplifiedOverride[];
+  // prototyping
+  interactions?: SimplifiedInteraction[];
   // children
   children?: SimplifiedNode[];
 }
@@ -1,5 +1,5 @@
 // Re-export extractor types only
-export type { SimplifiedDesign } from "./extractors/types.js";
+export type { SimplifiedDesign, SimplifiedComponentLibrary } from "./extractors/types.js";
 
 // Flexible extractor system
 export type {
@@ -13,10 +13,12 @@ export type {
 export {
   extractFromDesign,
   simplifyRawFigmaObject,
+  simplifyComponentDefinitions,
   layoutExtractor,
   textExtractor,
   visualsExtractor,
   componentExtractor,
+  interactionsExtractor,
   allExtractors,
   layoutAndText,
   contentOnly,
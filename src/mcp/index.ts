@@ -3,8 +3,16 @@ import { Logger } from "../utils/logger.js";
 import {
   downloadFigmaImagesTool,
   getFigmaDataTool,
+  getFigmaVariablesTool,
+  getFigmaComponentsTool,
+  getFigmaIconComponentsTool,
+  getFigmaFontsTool,
   type DownloadImagesParams,
   type GetFigmaDataParams,
+  type GetFigmaVariablesParams,
+  type GetFigmaComponentsParams,
+  type GetFigmaIconComponentsParams,
+  type GetFigmaFontsParams,
 } from "./tools/index.js";
 
 const serverInfo = {
@@ -47,13 +55,53 @@ function registerTools(
       getFigmaDataTool.handler(params, options.outputFormat),
   );
 
+  // Register get_figma_variables tool
+  server.tool(
+    getFigmaVariablesTool.name,
+    getFigmaVariablesTool.description,
+    getFigmaVariablesTool.parameters,
+    (params: GetFigmaVariablesParams) =>
+      getFigmaVariablesTool.handler(params, options.outputFormat),
+  );
+
+  // Register get_figma_components tool
+  server.tool(
+    getFigmaComponentsTool.name,
+    getFigmaComponentsTool.description,
+    getFigmaComponentsTool.parameters,
+    (params: GetFigmaComponentsParams) =>
+      getFigmaComponentsTool.handler(params, options.outputFormat),
+  );
+
+  // Register get_figma_icon_components tool
+  server.tool(
+    getFigmaIconComponentsTool.name,
+    getFigmaIconComponentsTool.description,
+    getFigmaIconComponentsTool.parameters,
+    (params: GetFigmaIconComponentsParams) =>
+      getFigmaIconComponentsTool.handler(params, options.outputFormat),
+  );
+
+  // Register get_figma_fonts tool
+  server.tool(
+    getFigmaFontsTool.name,
+    getFigmaFontsTool.description,
+    getFigmaFontsTool.parameters,
+    (params: GetFigmaFontsParams) =>
+      getFigmaFontsTool.handler(params, options.outputFormat),
+  );
+
   // Register download_figma_images tool if CLI flag or env var is not set
   if (!options.skipImageDownloads) {
-    server.tool(
+    server.registerTool(
       downloadFigmaImagesTool.name,
-      downloadFigmaImagesTool.description,
-      downloadFigmaImagesTool.parameters,
-      (params: DownloadImagesParams) => downloadFigmaImagesTool.handler(params),
+      {
+        description: downloadFigmaImagesTool.description,
+        inputSchema: downloadFigmaImagesTool.parameters,
+        outputSchema: downloadFigmaImagesTool.outputSchema,
+      },
+      (params: DownloadImagesParams) =>
+        downloadFigmaImagesTool.handler(params, options.outputFormat),
     );
   }
 }
@@ -1,6 +1,8 @@
 import { z } from "zod";
+import yaml from "js-yaml";
 import { FigmaService } from "../../services/figma.js";
 import { Logger } from "../../utils/logger.js";
+import { getImageStorageFromEnv } from "../../utils/storage.js";
 
 const parameters = {
   fileKey: z
@@ -25,11 +27,11 @@ const parameters = {
       fileName: z
         .string()
         .regex(
-          /^[a-zA-Z0-9_.-]+\.(png|svg)$/,
-          "File names must contain only letters, numbers, underscores, dots, or hyphens, and end with .png or .svg.",
+          /^[a-zA-Z0-9_.-]+\.(png|svg|jpe?g|webp|avif|pdf)$/,
+          "File names must contain only letters, numbers, underscores, dots, or hyphens, and end with .png, .svg, .jpg, .jpeg, .webp, .avif or .pdf.",
         )
         .describe(
-          "Desired filename for the uploaded S3 file. Use .svg for IMAGE-SVG nodes, .png for IMAGE nodes. Recommend format: 'type-nodeId.ext' (e.g., 'svg-195-3012.svg' or 'image-195-3184.png') to ensure uniqueness.",
+          "Desired filename for the stored image. The extension selects the output format: use .svg for IMAGE-SVG nodes; for IMAGE nodes use .png, or .webp/.avif/.jpg for smaller files (converted with the quality parameter). Use .pdf to render a node as PDF. Recommend format: 'type-nodeId.ext' (e.g., 'svg-195-3012.svg' or 'image-195-3184.png') to ensure uniqueness.",
         ),
       needsCropping: z
         .boolean()
@@ -43,6 +45,27 @@ const parameters = {
         .boolean()
         .optional()
         .describe("Set to true if you need width/height as CSS variables. Found in node.imageDownloadArguments.requiresImageDimensions. Default: false."),
+      containerAspectRatio: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Width / height of the node, so stretched images are rendered at its proportions. Copy from node.imageDownloadArguments.containerAspectRatio when present."),
+      rotation: z
+        .number()
+        .optional()
+        .describe("Image rotation in degrees, counter-clockwise. Copy from node.imageDownloadArguments.rotation when present."),
+      filters: z
+        .object({
+          exposure: z.number().optional(),
+          contrast: z.number().optional(),
+          saturation: z.number().optional(),
+          temperature: z.number().optional(),
+          tint: z.number().optional(),
+          highlights: z.number().optional(),
+          shadows: z.number().optional(),
+        })
+        .optional()
+        .describe("Figma image filters, each from -1 to 1. Copy from node.imageDownloadArguments.filters when present."),
       filenameSuffix: z
         .string()
         .optional()
@@ -51,14 +74,47 @@ const parameters = {
         ),
     })
     .array()
-    .describe("Array of image nodes to download and upload to S3. Extract these from get_figma_data output by finding nodes with type='IMAGE-SVG' (vector) or type='IMAGE' (raster). Each entry should include the nodeId, appropriate fileName, and for raster images the imageRef. Include imageDownloadArguments properties (needsCropping, cropTransform, filenameSuffix) when present."),
+    .describe("Array of image nodes to download and store. Extract these from get_figma_data output by finding nodes with type='IMAGE-SVG' (vector) or type='IMAGE' (raster). Each entry should include the nodeId, appropriate fileName, and for raster images the imageRef. Include imageDownloadArguments properties (needsCropping, cropTransform, containerAspectRatio, rotation, filters, filenameSuffix) when present."),
   pngScale: z
     .number()
     .positive()
     .optional()
     .default(2)
     .describe(
-      "Export scale for PNG images. Optional, defaults to 2 if not specified. Affects PNG images only.",
+      "Export scale for rendered raster images (.png, .jpg, .webp, .avif). Optional, defaults to 2 if not specified. Does not affect SVG or PDF output.",
+    ),
+  quality: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(
+      "Quality for .jpg, .webp and .avif output, 1-100. Optional, defaults to 80.",
+    ),
+  responsiveWidths: z
+    .array(z.number().int().positive())
+    .optional()
+    .describe(
+      "Pixel widths to generate for each raster image (e.g. [480, 960, 1440]). Returns a srcset with 'w' descriptors. Widths above the image's size are capped to it.",
+    ),
+  densities: z
+    .array(z.number().positive())
+    .optional()
+    .describe(
+      "Pixel densities to generate for each raster image (e.g. [1, 2, 3]). The highest density uses the full-resolution image, so set pngScale to at least the highest density. Returns a srcset with 'x' descriptors. Ignored when responsiveWidths is set.",
+    ),
+  svgCurrentColor: z
+    .boolean()
+    .optional()
+    .describe(
+      "Replace the color of single-color SVGs (e.g. monochrome icons) with currentColor so they can be recolored with CSS. Optional, defaults to false.",
+    ),
+  placeholders: z
+    .boolean()
+    .optional()
+    .describe(
+      "Set to true to compute low-quality placeholders for raster images: a blurhash string, the dominant color and a ~16px base64 preview, for progressive loading. Optional, defaults to false.",
     ),
   figmaOAuthToken: z
     .string()
@@ -70,20 +126,66 @@ const parameters = {
 const parametersSchema = z.object(parameters);
 export type DownloadImagesParams = z.infer<typeof parametersSchema>;
 
+const outputSchema = {
+  storage: z.string().describe("Storage backend the images were stored with"),
+  summary: z
+    .object({
+      requested: z.number().describe("Number of requested nodes"),
+      uniqueImages: z
+        .number()
+        .describe(
+          "Number of images downloaded. Nodes with the same imageRef and no filenameSuffix share one download, so this can be lower than requested.",
+        ),
+      uploaded: z.number(),
+      skipped: z.number(),
+      renderFailed: z.number(),
+      uploadFailed: z.number(),
+    })
+    .describe("Status counts are per unique image, so they add up to uniqueImages"),
+  images: z.array(
+    z.object({
+      fileName: z.string(),
+      status: z.enum(["uploaded", "skipped", "render_failed", "upload_failed"]),
+      nodeId: z.string().optional(),
+      imageRef: z.string().optional(),
+      alsoRequestedAs: z
+        .array(z.string())
+        .optional()
+        .describe("Other requested file names served by this image"),
+      reason: z.string().optional().describe("Why the image failed"),
+      url: z.string().optional().describe("URL, relative path or data URI of the stored image"),
+      dimensions: z.string().optional().describe("'WIDTHxHEIGHT', or 'vector' for SVG and PDF"),
+      cropped: z.boolean().optional(),
+      cssVariables: z.string().optional(),
+      srcset: z.string().optional(),
+      placeholder: z
+        .object({ blurhash: z.string(), dominantColor: z.string(), preview: z.string() })
+        .optional(),
+      processing: z.array(z.string()).optional(),
+    }),
+  ),
+  retryNodes: parameters.nodes
+    .optional()
+    .describe("Nodes of the failed images, ready to pass back as nodes to retry just those"),
+};
+
 // Enhanced handler function with image processing support
-async function downloadFigmaImages(params: DownloadImagesParams) {
+async function downloadFigmaImages(params: DownloadImagesParams, outputFormat: "yaml" | "json") {
   try {
-    const { fileKey, nodes, pngScale = 2, figmaOAuthToken } = parametersSchema.parse(params);
+    const {
+      fileKey,
+      nodes,
+      pngScale = 2,
+      quality,
+      responsiveWidths,
+      densities,
+      svgCurrentColor,
+      placeholders,
+      figmaOAuthToken,
+    } = parametersSchema.parse(params);
 
-    // Get S3 config from environment - REQUIRED
-    const { getS3ConfigFromEnv } = await import("../../utils/s3-upload.js");
-    const s3Config = getS3ConfigFromEnv();
-
-    if (!s3Config) {
-      throw new Error(
-        "S3 configuration not found. Required environment variables: AWS_REGION, AWS_BUCKET_NAME, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY",
-      );
-    }
+    // Storage backend (S3, local directory or inline data URIs) is selected by environment
+    const storage = getImageStorageFromEnv({ fileKey });
 
     // Create FigmaService with the provided OAuth token (supports both OAuth and PAT)
     const figmaService = new FigmaService({
@@ -93,6 +195,7 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
     // Process nodes: collect unique downloads and track which requests they satisfy
     const downloadItems = [];
     const downloadToRequests = new Map<number, string[]>(); // download index -> requested filenames
+    const downloadToNodes = new Map<number, typeof nodes>(); // download index -> requested nodes
     const seenDownloads = new Map<string, number>(); // uniqueKey -> download index
 
     for (const rawNode of nodes) {
@@ -114,6 +217,9 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
         needsCropping: node.needsCropping || false,
         cropTransform: node.cropTransform,
         requiresImageDimensions: node.requiresImageDimensions || false,
+        containerAspectRatio: node.containerAspectRatio,
+        rotation: node.rotation,
+        filters: node.filters,
       };
 
       if (node.imageRef) {
@@ -123,6 +229,7 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
         if (!node.filenameSuffix && seenDownloads.has(uniqueKey)) {
           // Already planning to download this, just add to the requests list
           const downloadIndex = seenDownloads.get(uniqueKey)!;
+          downloadToNodes.get(downloadIndex)!.push(rawNode);
           const requests = downloadToRequests.get(downloadIndex)!;
           if (!requests.includes(finalFileName)) {
             requests.push(finalFileName);
@@ -137,6 +244,7 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
           const downloadIndex = downloadItems.length;
           downloadItems.push({ ...downloadItem, imageRef: node.imageRef });
           downloadToRequests.set(downloadIndex, [finalFileName]);
+          downloadToNodes.set(downloadIndex, [rawNode]);
           seenDownloads.set(uniqueKey, downloadIndex);
         }
       } else {
@@ -144,52 +252,82 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
         const downloadIndex = downloadItems.length;
         downloadItems.push({ ...downloadItem, nodeId });
         downloadToRequests.set(downloadIndex, [finalFileName]);
+        downloadToNodes.set(downloadIndex, [rawNode]);
       }
     }
 
-    // Use temp directory relative to current working directory
-    const tempPath = "./temp-figma-images";
-
-    const allDownloads = await figmaService.downloadImages(fileKey, tempPath, downloadItems, {
+    const allDownloads = await figmaService.downloadImages(fileKey, downloadItems, {
       pngScale,
-      uploadToS3: true,
-      s3Config,
+      storage,
+      outputOptions: { quality, responsiveWidths, densities, svgCurrentColor, placeholders },
     });
 
-    const successCount = allDownloads.filter(Boolean).length;
+    const images = allDownloads.map((download, index) => {
+      const { fileName, status, nodeId, imageRef, reason, image } = download;
 
-    // Format results with S3 URLs
-    const imagesList = allDownloads
-      .map((result, index) => {
-        const fileName = result.filePath.split("/").pop() || result.filePath;
-        const dimensions = `${result.finalDimensions.width}x${result.finalDimensions.height}`;
-        const cropStatus = result.wasCropped ? " (cropped)" : "";
+      // Show all the filenames that were requested for this download
+      const requestedNames = downloadToRequests.get(index) ?? [fileName];
+      const alsoRequestedAs = requestedNames.filter((name) => name !== fileName);
 
-        const dimensionInfo = result.cssVariables
-          ? `${dimensions} | ${result.cssVariables}`
-          : dimensions;
+      return {
+        fileName,
+        status,
+        ...(nodeId ? { nodeId } : {}),
+        ...(imageRef ? { imageRef } : {}),
+        ...(alsoRequestedAs.length ? { alsoRequestedAs } : {}),
+        ...(reason ? { reason } : {}),
+        ...(image
+          ? {
+              url: image.url,
+              dimensions: image.finalDimensions.width
+                ? `${image.finalDimensions.width}x${image.finalDimensions.height}`
+                : "vector",
+              ...(image.wasCropped ? { cropped: true } : {}),
+              ...(image.cssVariables ? { cssVariables: image.cssVariables } : {}),
+              ...(image.srcset ? { srcset: image.srcset } : {}),
+              ...(image.placeholder ? { placeholder: image.placeholder } : {}),
+              ...(image.processingLog.length ? { processing: image.processingLog } : {}),
+            }
+          : {}),
+      };
+    });
 
-        // Show all the filenames that were requested for this download
-        const requestedNames = downloadToRequests.get(index) || [fileName];
-        const aliasText =
-          requestedNames.length > 1
-            ? ` (also requested as: ${requestedNames.filter((name: string) => name !== fileName).join(", ")})`
-            : "";
+    const failedIndexes = allDownloads
+      .map((download, index) => (download.image ? -1 : index))
+      .filter((index) => index !== -1);
+    const countStatus = (status: string) => images.filter((i) => i.status === status).length;
 
-        // S3 URL is always present now
-        const s3Info = result.s3Url ? `\n  S3 URL: ${result.s3Url}` : "";
+    const result = {
+      storage: storage.name,
+      summary: {
+        requested: nodes.length,
+        uniqueImages: allDownloads.length,
+        uploaded: countStatus("uploaded"),
+        skipped: countStatus("skipped"),
+        renderFailed: countStatus("render_failed"),
+        uploadFailed: countStatus("upload_failed"),
+      },
+      images,
+      // Ready to pass back as `nodes` to retry just the failed images
+      ...(failedIndexes.length
+        ? { retryNodes: failedIndexes.flatMap((index) => downloadToNodes.get(index) ?? []) }
+        : {}),
+    };
 
-        return `- ${fileName}: ${dimensionInfo}${cropStatus}${aliasText}${s3Info}`;
-      })
-      .join("\n");
+    Logger.log(
+      `Stored ${allDownloads.length - failedIndexes.length} of ${allDownloads.length} images (${failedIndexes.length} failed)`,
+    );
+
+    const formattedResult =
+      outputFormat === "json" ? JSON.stringify(result, null, 2) : yaml.dump(result);
 
     return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Uploaded ${successCount} images to S3:\n${imagesList}`,
-        },
-      ],
+      // Only an error when nothing could be stored; partial failures are listed in the result
+      ...(failedIndexes.length > 0 && failedIndexes.length === allDownloads.length
+        ? { isError: true }
+        : {}),
+      content: [{ type: "text" as const, text: formattedResult }],
+      structuredContent: result,
     };
   } catch (error) {
     Logger.error(`Error downloading images from ${params.fileKey}:`, error);
@@ -209,7 +347,8 @@ async function downloadFigmaImages(params: DownloadImagesParams) {
 export const downloadFigmaImagesTool = {
   name: "download_figma_images",
   description:
-    "Download and upload Figma images to S3 in bulk, returning public URLs. Call this AFTER get_figma_data to process extracted images. Handles two image types: (1) IMAGE-SVG nodes (vector graphics - no imageRef needed), (2) IMAGE nodes with imageRef (raster images like photos - imageRef REQUIRED). The tool downloads images, applies cropping transforms if needed, uploads to S3 with public access, and returns the S3 URLs. Use the imageDownloadArguments from get_figma_data output to populate needsCropping, cropTransform, and filenameSuffix parameters for each image. Temporary files are automatically cleaned up.",
+    "Download Figma images in bulk and store them with the configured storage backend (S3 or S3-compatible bucket, a local project directory, or inline data URIs), returning URLs or relative paths. Call this AFTER get_figma_data to process extracted images. Handles two image types: (1) IMAGE-SVG nodes (vector graphics - no imageRef needed), (2) IMAGE nodes with imageRef (raster images like photos - imageRef REQUIRED). The tool downloads images, applies crops, rotations, flips and filters if needed, stores them, and returns where each image can be referenced from. Use the imageDownloadArguments from get_figma_data output to populate needsCropping, cropTransform, containerAspectRatio, rotation, filters and filenameSuffix parameters for each image. Each image gets a status (uploaded, skipped when storage already had it, render_failed or upload_failed) with a reason for failures; failed images are listed in retryNodes, which can be passed back as nodes to retry only those.",
   parameters,
+  outputSchema,
   handler: downloadFigmaImages,
 } as const;
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { GetFileResponse, GetFileNodesResponse } from "@figma/rest-api-spec";
+import { FigmaService } from "~/services/figma.js";
+import {
+  simplifyComponentDefinitions,
+  allExtractors,
+  collapseSvgContainers,
+} from "~/extractors/index.js";
+import yaml from "js-yaml";
+import { Logger, writeLogs } from "~/utils/logger.js";
+
+const parameters = {
+  fileKey: z
+    .string()
+    .regex(/^[a-zA-Z0-9]+$/, "File key must be alphanumeric")
+    .describe(
+      "The key of the Figma file containing the components, often found in a provided URL like figma.com/(file|design)/<fileKey>/...",
+    ),
+  nodeId: z
+    .string()
+    .regex(
+      /^I?\d+[:|-]\d+(?:;\d+[:|-]\d+)*$/,
+      "Node ID must be like '1234:5678' or 'I5666:180910;1:10515;1:10336'",
+    )
+    .optional()
+    .describe(
+      "The ID of a component set, component, or a frame/page containing them, often found as URL parameter node-id=<nodeId>. Omit to return every component in the file.",
+    ),
+  figmaOAuthToken: z
+    .string()
+    .describe(
+      "User's Figma OAuth access token obtained via OAuth flow. Required for all requests.",
+    ),
+};
+
+const parametersSchema = z.object(parameters);
+export type GetFigmaComponentsParams = z.infer<typeof parametersSchema>;
+
+async function getFigmaComponents(params: GetFigmaComponentsParams, outputFormat: "yaml" | "json") {
+  try {
+    const { fileKey, nodeId: rawNodeId, figmaOAuthToken } = parametersSchema.parse(params);
+
+    const figmaService = new FigmaService({
+      figmaOAuthToken: figmaOAuthToken,
+    });
+
+    // Replace - with : in nodeId for our query—Figma API expects :
+    const nodeId = rawNodeId?.replace(/-/g, ":");
+
+    Logger.log(
+      `Fetching component definitions from ${nodeId ? `node ${nodeId} in file` : "full file"} ${fileKey}`,
+    );
+
+    let rawApiResponse: GetFileResponse | GetFileNodesResponse;
+    if (nodeId) {
+      rawApiResponse = await figmaService.getRawNode(fileKey, nodeId);
+    } else {
+      rawApiResponse = await figmaService.getRawFile(fileKey);
+    }
+
+    const library = simplifyComponentDefinitions(rawApiResponse, allExtractors, {
+      afterChildren: collapseSvgContainers,
+    });
+
+    writeLogs("figma-components.json", library);
+
+    Logger.log(
+      `Successfully extracted ${library.components.length} components, ${
+        Object.keys(library.globalVars.styles).length
+      } styles`,
+    );
+
+    const { components, globalVars, ...metadata } = library;
+    const result = {
+      metadata,
+      components,
+      globalVars,
+    };
+
+    Logger.log(`Generating ${outputFormat.toUpperCase()} result from extracted components`);
+    const formattedResult =
+      outputFormat === "json" ? JSON.stringify(result, null, 2) : yaml.dump(result);
+
+    Logger.log("Sending result to client");
+    return {
+      content: [{ type: "text" as const, text: formattedResult }],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    Logger.error(`Error fetching components from ${params.fileKey}:`, message);
+    return {
+      isError: true,
+      content: [{ type: "text" as const, text: `Error fetching components: ${message}` }],
+    };
+  }
+}
+
+// Export tool configuration
+export const getFigmaComponentsTool = {
+  name: "get_figma_components",
+  description:
+    "Fetch full component definitions from a Figma file or component set. For each component set, returns its property definitions (BOOLEAN, TEXT, INSTANCE_SWAP and VARIANT with options and default values) and every variant with its property combination and simplified node tree. Standalone components are returned with their property definitions and node tree. Use this to build a single prop-driven component instead of implementing each variant separately.",
+  parameters,
+  handler: getFigmaComponents,
+} as const;
@@ -6,6 +6,11 @@ import {
   allExtractors,
   collapseSvgContainers,
 } from "~/extractors/index.js";
+import {
+  hasBoundVariables,
+  simplifyVariables,
+  type SimplifiedVariables,
+} from "~/transformers/variables.js";
 import yaml from "js-yaml";
 import { Logger, writeLogs } from "~/utils/logger.js";
 
@@ -32,6 +37,12 @@ const parameters = {
     .describe(
       "OPTIONAL. Do NOT use unless explicitly requested by the user. Controls how many levels deep to traverse the node tree.",
     ),
+  instanceOverridesOnly: z
+    .boolean()
+    .optional()
+    .describe(
+      "OPTIONAL. Set to true to shrink output for designs with many component instances. Instances whose main component is also included in this response omit their children and list only componentProperties and 'overrides' (values that differ from the main component). Swapped or exposed nested instances are still included as children. Use get_figma_components to see the main component's full tree.",
+    ),
   figmaOAuthToken: z
     .string()
     .describe(
@@ -48,7 +59,13 @@ async function getFigmaData(
   outputFormat: "yaml" | "json",
 ) {
   try {
-    const { fileKey, nodeId: rawNodeId, depth, figmaOAuthToken } = parametersSchema.parse(params);
+    const {
+      fileKey,
+      nodeId: rawNodeId,
+      depth,
+      instanceOverridesOnly,
+      figmaOAuthToken,
+    } = parametersSchema.parse(params);
 
     // Create FigmaService with the provided OAuth token (supports both OAuth and PAT)
     const figmaService = new FigmaService({
@@ -72,11 +89,34 @@ async function getFigmaData(
       rawApiResponse = await figmaService.getRawFile(fileKey, depth);
     }
 
+    // Variable names are only available from the Variables API, so only fetch them when needed
+    let variableMetadata: SimplifiedVariables | undefined;
+    const rootNodes =
+      "nodes" in rawApiResponse
+        ? Object.values(rawApiResponse.nodes).map((n) => n.document)
+        : [rawApiResponse.document];
+    if (rootNodes.some(hasBoundVariables)) {
+      try {
+        const variablesResponse = await figmaService.getLocalVariables(fileKey);
+        variableMetadata = simplifyVariables(variablesResponse.meta);
+      } catch (error) {
+        // The Variables API isn't available on every plan; fall back to variable IDs
+        const message = error instanceof Error ? error.message : String(error);
+        Logger.log(`Could not fetch variables for ${fileKey}, using variable IDs: ${message}`);
+      }
+    }
+
     // Use unified design extraction (handles nodes + components consistently)
-    const simplifiedDesign = simplifyRawFigmaObject(rawApiResponse, allExtractors, {
-      maxDepth: depth,
-      afterChildren: collapseSvgContainers,
-    });
+    const simplifiedDesign = simplifyRawFigmaObject(
+      rawApiResponse,
+      allExtractors,
+      {
+        maxDepth: depth,
+        afterChildren: collapseSvgContainers,
+        instanceOverridesOnly,
+      },
+      variableMetadata,
+    );
 
     writeLogs("figma-simplified.json", simplifiedDesign);
 
@@ -115,7 +155,7 @@ async function getFigmaData(
 export const getFigmaDataTool = {
   name: "get_figma_data",
   description:
-    "Fetch Figma design data in structured JSON format. Returns a comprehensive tree of all nodes (frames, text, images, etc.) with their properties (layout, colors, fonts, dimensions). Output includes: (1) 'nodes' array with the design hierarchy, (2) 'globalVars' object containing reusable styles/colors/layouts, (3) 'metadata' with file info. Use this as the FIRST step before downloading images. The returned data contains IMAGE-SVG nodes (vector graphics) and IMAGE nodes with 'imageRef' (raster images like photos) that can be extracted and passed to download_figma_images tool for S3 upload.",
+    "Fetch Figma design data in structured JSON format. Returns a comprehensive tree of all nodes (frames, text, images, etc.) with their properties (layout, colors, fonts, dimensions, prototype interactions). Output includes: (1) 'nodes' array with the design hierarchy, (2) 'globalVars' object containing reusable styles/colors/layouts and any Figma Variables (design tokens) bound to nodes via 'boundVariables', (3) 'metadata' with file info. Use this as the FIRST step before downloading images. The returned data contains IMAGE-SVG nodes (vector graphics) and IMAGE nodes with 'imageRef' (raster images like photos) that can be extracted and passed to download_figma_images tool for S3 upload.",
   parameters,
   handler: getFigmaData,
 } as const;
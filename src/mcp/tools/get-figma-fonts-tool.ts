@@ -0,0 +1,94 @@
+import { z } from "zod";
+import type { GetFileResponse, GetFileNodesResponse, Style } from "@figma/rest-api-spec";
+import { FigmaService } from "~/services/figma.js";
+import { buildFontManifest, getGoogleFontFamilies } from "~/utils/font-manifest.js";
+import yaml from "js-yaml";
+import { Logger, writeLogs } from "~/utils/logger.js";
+
+const parameters = {
+  fileKey: z
+    .string()
+    .regex(/^[a-zA-Z0-9]+$/, "File key must be alphanumeric")
+    .describe(
+      "The key of the Figma file to scan, often found in a provided URL like figma.com/(file|design)/<fileKey>/...",
+    ),
+  nodeId: z
+    .string()
+    .regex(
+      /^I?\d+[:|-]\d+(?:;\d+[:|-]\d+)*$/,
+      "Node ID must be like '1234:5678' or 'I5666:180910;1:10515;1:10336'",
+    )
+    .optional()
+    .describe(
+      "The ID of the node to scan, often found as URL parameter node-id=<nodeId>. Scans the whole file when omitted.",
+    ),
+  figmaOAuthToken: z
+    .string()
+    .describe(
+      "User's Figma OAuth access token obtained via OAuth flow. Required for all requests.",
+    ),
+};
+
+const parametersSchema = z.object(parameters);
+export type GetFigmaFontsParams = z.infer<typeof parametersSchema>;
+
+async function getFigmaFonts(params: GetFigmaFontsParams, outputFormat: "yaml" | "json") {
+  try {
+    const { fileKey, nodeId: rawNodeId, figmaOAuthToken } = parametersSchema.parse(params);
+
+    const figmaService = new FigmaService({
+      figmaOAuthToken: figmaOAuthToken,
+    });
+
+    // Replace - with : in nodeId for our query—Figma API expects :
+    const nodeId = rawNodeId?.replace(/-/g, ":");
+
+    Logger.log(
+      `Collecting fonts for ${nodeId ? `node ${nodeId} from file` : "full file"} ${fileKey}`,
+    );
+
+    // Fetch the design and the Google Fonts catalog in parallel; the catalog is optional
+    const rawApiResponsePromise: Promise<GetFileResponse | GetFileNodesResponse> = nodeId
+      ? figmaService.getRawNode(fileKey, nodeId)
+      : figmaService.getRawFile(fileKey);
+    const [rawApiResponse, googleFonts] = await Promise.all([
+      rawApiResponsePromise,
+      getGoogleFontFamilies(),
+    ]);
+
+    // Text style names come from the style metadata sent alongside each document
+    const documents =
+      "nodes" in rawApiResponse ? Object.values(rawApiResponse.nodes) : [rawApiResponse];
+    const rootNodes = documents.map((n) => n.document);
+    const styles: Record<string, Style> = Object.assign({}, ...documents.map((n) => n.styles));
+
+    const manifest = buildFontManifest(rootNodes, styles, googleFonts);
+    writeLogs("figma-fonts.json", manifest);
+
+    Logger.log(`Found ${manifest.fonts.length} font families`);
+
+    const formattedResult =
+      outputFormat === "json" ? JSON.stringify(manifest, null, 2) : yaml.dump(manifest);
+
+    Logger.log("Sending result to client");
+    return {
+      content: [{ type: "text" as const, text: formattedResult }],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    Logger.error(`Error collecting fonts from ${params.fileKey}:`, message);
+    return {
+      isError: true,
+      content: [{ type: "text" as const, text: `Error collecting fonts: ${message}` }],
+    };
+  }
+}
+
+// Export tool configuration
+export const getFigmaFontsTool = {
+  name: "get_figma_fonts",
+  description:
+    "List every font used by visible text in a Figma file or under a node, to set up @font-face rules or next/font before implementing a design. Returns font families with whether each is available on Google Fonts, and per weight/style variant: Figma style names, PostScript names, the number of text layers and characters using it, and the named text styles that reference it.",
+  parameters,
+  handler: getFigmaFonts,
+} as const;
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { FigmaService } from "~/services/figma.js";
+import {
+  generateIconComponents,
+  toComponentName,
+  type IconComponent,
+} from "~/utils/icon-components.js";
+import yaml from "js-yaml";
+import { Logger, writeLogs } from "~/utils/logger.js";
+
+const parameters = {
+  fileKey: z
+    .string()
+    .regex(/^[a-zA-Z0-9]+$/, "File key must be alphanumeric")
+    .describe("The key of the Figma file containing the icons"),
+  nodeIds: z
+    .array(
+      z
+        .string()
+        .regex(
+          /^I?\d+[:|-]\d+(?:;\d+[:|-]\d+)*$/,
+          "Node ID must be like '1234:5678' or 'I5666:180910;1:10515;1:10336'",
+        ),
+    )
+    .min(1)
+    .describe(
+      "IDs of IMAGE-SVG nodes from get_figma_data output (found in node.id field). Format: '1234:5678' or with hyphens '1234-5678'.",
+    ),
+  frameworks: z
+    .array(z.enum(["react", "vue", "svg"]))
+    .optional()
+    .default(["react", "vue", "svg"])
+    .describe(
+      "Which components to generate: 'react' (TSX), 'vue' (single-file component) and 'svg' (a TypeScript function returning inline SVG markup). Defaults to all three.",
+    ),
+  figmaOAuthToken: z
+    .string()
+    .describe(
+      "User's Figma OAuth access token obtained via OAuth flow. Required for all requests.",
+    ),
+};
+
+const parametersSchema = z.object(parameters);
+export type GetFigmaIconComponentsParams = z.infer<typeof parametersSchema>;
+
+async function getFigmaIconComponents(
+  params: GetFigmaIconComponentsParams,
+  outputFormat: "yaml" | "json",
+) {
+  try {
+    const {
+      fileKey,
+      nodeIds: rawNodeIds,
+      frameworks,
+      figmaOAuthToken,
+    } = parametersSchema.parse(params);
+
+    const figmaService = new FigmaService({
+      figmaOAuthToken: figmaOAuthToken,
+    });
+
+    // Replace - with : in nodeIds for our query—Figma API expects :
+    const nodeIds = [...new Set(rawNodeIds.map((id) => id.replace(/-/g, ":")))];
+
+    Logger.log(`Generating icon components for ${nodeIds.length} nodes in ${fileKey}`);
+
+    // Layer names are only needed for naming, so a shallow fetch is enough
+    const nodesResponse = await figmaService.getRawNode(fileKey, nodeIds.join(","), 1);
+    const { markup, failures } = await figmaService.getNodeSvgMarkup(fileKey, nodeIds);
+
+    const icons: IconComponent[] = [];
+    const failed: Array<{ nodeId: string; reason: string }> = [];
+    const nameCounts = new Map<string, number>();
+    for (const nodeId of nodeIds) {
+      const svg = markup[nodeId];
+      if (!svg) {
+        failed.push({
+          nodeId,
+          reason: failures[nodeId] ?? "Figma could not render this node as SVG",
+        });
+        continue;
+      }
+
+      const layerName = nodesResponse.nodes[nodeId]?.document.name ?? nodeId;
+
+      // Two layers with the same name would overwrite each other's files, so number the duplicates
+      const baseName = toComponentName(layerName);
+      const count = (nameCounts.get(baseName) ?? 0) + 1;
+      nameCounts.set(baseName, count);
+      const componentName = count > 1 ? baseName.replace(/Icon$/, `${count}Icon`) : baseName;
+
+      try {
+        icons.push(generateIconComponents(nodeId, layerName, svg, frameworks, componentName));
+      } catch (error) {
+        failed.push({ nodeId, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const result = { icons, ...(failed.length ? { failed } : {}) };
+    writeLogs("figma-icon-components.json", result);
+
+    Logger.log(`Generated ${icons.length} icon components (${failed.length} failed)`);
+
+    const formattedResult =
+      outputFormat === "json" ? JSON.stringify(result, null, 2) : yaml.dump(result);
+
+    Logger.log("Sending result to client");
+    return {
+      content: [{ type: "text" as const, text: formattedResult }],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    Logger.error(`Error generating icon components from ${params.fileKey}:`, message);
+    return {
+      isError: true,
+      content: [{ type: "text" as const, text: `Error generating icon components: ${message}` }],
+    };
+  }
+}
+
+// Export tool configuration
+export const getFigmaIconComponentsTool = {
+  name: "get_figma_icon_components",
+  description:
+    "Generate ready-to-commit icon components from IMAGE-SVG nodes found in get_figma_data output. For each node, returns source files for a React (TSX) component, a Vue single-file component and a plain TypeScript function returning inline SVG markup, named from the Figma layer name (e.g. 'icons/arrow-left' becomes ArrowLeftIcon). Every component accepts size, color and title props; single-color icons use currentColor so color recolors them, while multi-color icons are marked recolorable: false. Write the returned files into the codebase as-is instead of downloading SVG files.",
+  parameters,
+  handler: getFigmaIconComponents,
+} as const;
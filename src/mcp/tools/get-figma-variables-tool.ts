@@ -0,0 +1,84 @@
+import { z } from "zod";
+import type { GetPublishedVariablesResponse } from "@figma/rest-api-spec";
+import { FigmaService } from "~/services/figma.js";
+import { simplifyVariables } from "~/transformers/variables.js";
+import yaml from "js-yaml";
+import { Logger, writeLogs } from "~/utils/logger.js";
+
+const parameters = {
+  fileKey: z
+    .string()
+    .regex(/^[a-zA-Z0-9]+$/, "File key must be alphanumeric")
+    .describe(
+      "The key of the Figma file to fetch variables from, often found in a provided URL like figma.com/(file|design)/<fileKey>/...",
+    ),
+  figmaOAuthToken: z
+    .string()
+    .describe(
+      "User's Figma OAuth access token obtained via OAuth flow. Required for all requests.",
+    ),
+};
+
+const parametersSchema = z.object(parameters);
+export type GetFigmaVariablesParams = z.infer<typeof parametersSchema>;
+
+async function getFigmaVariables(params: GetFigmaVariablesParams, outputFormat: "yaml" | "json") {
+  try {
+    const { fileKey, figmaOAuthToken } = parametersSchema.parse(params);
+
+    const figmaService = new FigmaService({
+      figmaOAuthToken: figmaOAuthToken,
+    });
+
+    Logger.log(`Fetching variables for file ${fileKey}`);
+
+    const localResponse = await figmaService.getLocalVariables(fileKey);
+
+    // Published variables only exist for library files, so a failure here shouldn't block the
+    // local variables from being returned
+    let publishedMeta: GetPublishedVariablesResponse["meta"] | undefined;
+    try {
+      const publishedResponse = await figmaService.getPublishedVariables(fileKey);
+      publishedMeta = publishedResponse.meta;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.log(`Skipping published variables for ${fileKey}: ${message}`);
+    }
+
+    const simplifiedVariables = simplifyVariables(localResponse.meta, publishedMeta);
+    writeLogs("figma-variables-simplified.json", simplifiedVariables);
+
+    Logger.log(
+      `Successfully extracted variables: ${Object.keys(simplifiedVariables.variables).length} variables, ${
+        Object.keys(simplifiedVariables.collections).length
+      } collections`,
+    );
+
+    Logger.log(`Generating ${outputFormat.toUpperCase()} result from extracted variables`);
+    const formattedResult =
+      outputFormat === "json"
+        ? JSON.stringify(simplifiedVariables, null, 2)
+        : yaml.dump(simplifiedVariables);
+
+    Logger.log("Sending result to client");
+    return {
+      content: [{ type: "text" as const, text: formattedResult }],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    Logger.error(`Error fetching variables for ${params.fileKey}:`, message);
+    return {
+      isError: true,
+      content: [{ type: "text" as const, text: `Error fetching variables: ${message}` }],
+    };
+  }
+}
+
+// Export tool configuration
+export const getFigmaVariablesTool = {
+  name: "get_figma_variables",
+  description:
+    "Fetch the Figma Variables (design tokens) defined in a file. Returns (1) 'collections' with their modes (e.g. Light/Dark) and default mode, and (2) 'variables' keyed by ID with name, collection, type (COLOR, FLOAT, STRING, BOOLEAN) and a value per mode. Aliased values include the referenced variable name and the resolved value. Use this to reference design tokens instead of hard-coding colors, spacing and radii found in get_figma_data output.",
+  parameters,
+  handler: getFigmaVariables,
+} as const;
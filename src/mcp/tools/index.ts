@@ -1,4 +1,12 @@
 export { getFigmaDataTool } from "./get-figma-data-tool.js";
 export { downloadFigmaImagesTool } from "./download-figma-images-tool.js";
+export { getFigmaVariablesTool } from "./get-figma-variables-tool.js";
+export { getFigmaComponentsTool } from "./get-figma-components-tool.js";
+export { getFigmaIconComponentsTool } from "./get-figma-icon-components-tool.js";
+export { getFigmaFontsTool } from "./get-figma-fonts-tool.js";
 export type { DownloadImagesParams } from "./download-figma-images-tool.js";
 export type { GetFigmaDataParams } from "./get-figma-data-tool.js";
+export type { GetFigmaVariablesParams } from "./get-figma-variables-tool.js";
+export type { GetFigmaComponentsParams } from "./get-figma-components-tool.js";
+export type { GetFigmaIconComponentsParams } from "./get-figma-icon-components-tool.js";
+export type { GetFigmaFontsParams } from "./get-figma-fonts-tool.js";
@@ -4,14 +4,31 @@ import type {
   GetFileResponse,
   GetFileNodesResponse,
   GetImageFillsResponse,
+  GetFileMetaResponse,
+  GetLocalVariablesResponse,
+  GetPublishedVariablesResponse,
+  ImageFilters,
 } from "@figma/rest-api-spec";
-import { downloadFigmaImage } from "~/utils/common.js";
-import { downloadAndProcessImage, type ImageProcessingResult } from "~/utils/image-processing.js";
+import { mapWithConcurrency } from "~/utils/common.js";
+import {
+  downloadAndProcessImage,
+  fetchImage,
+  type ImageOutputOptions,
+  ImageUploadError,
+  type ImageDownloadResult,
+} from "~/utils/image-processing.js";
 import { Logger, writeLogs } from "~/utils/logger.js";
 import { fetchWithRetry } from "~/utils/fetch-with-retry.js";
+import { getDefaultCache, type ResponseCache } from "~/utils/cache.js";
+import type { ImageStorage } from "~/utils/storage.js";
 
 export type FigmaAuthOptions = {
   figmaOAuthToken: string;
+  /**
+   * Cache for raw file and node responses. Defaults to the shared cache configured by
+   * environment variables; pass null to disable caching.
+   */
+  cache?: ResponseCache | null;
 };
 
 type SvgOptions = {
@@ -20,12 +37,24 @@ type SvgOptions = {
   simplifyStroke: boolean;
 };
 
+const DEFAULT_IMAGE_CONCURRENCY = 4;
+
+/**
+ * Number of images downloaded and processed at once, from IMAGE_CONCURRENCY
+ */
+function getImageConcurrency(): number {
+  const concurrency = parseInt(process.env.IMAGE_CONCURRENCY ?? "", 10);
+  return concurrency > 0 ? concurrency : DEFAULT_IMAGE_CONCURRENCY;
+}
+
 export class FigmaService {
   private readonly oauthToken: string;
   private readonly baseUrl = "https://api.figma.com/v1";
+  private readonly cache: ResponseCache | null;
 
-  constructor({ figmaOAuthToken }: FigmaAuthOptions) {
+  constructor({ figmaOAuthToken, cache }: FigmaAuthOptions) {
     this.oauthToken = figmaOAuthToken || "";
+    this.cache = cache === undefined ? getDefaultCache() : cache;
   }
 
   private getAuthHeaders(): Record<string, string> {
@@ -62,6 +91,50 @@ export class FigmaService {
     }
   }
 
+  /**
+   * Serve a file or node response from the cache if the file hasn't changed since it was cached.
+   *
+   * Freshness is checked against the lightweight file metadata endpoint on every hit, which also
+   * confirms the current token can still access the file before cached data is returned.
+   */
+  private async cachedRequest<T extends { version: string; lastModified: string }>(
+    fileKey: string,
+    endpoint: string,
+  ): Promise<T> {
+    if (!this.cache) return this.request<T>(endpoint);
+
+    const cacheKey = `${fileKey}:${endpoint}`;
+    const cached = await this.cache.get<T>(cacheKey);
+
+    if (cached) {
+      const response = await this.request<GetFileMetaResponse | { file: GetFileMetaResponse }>(
+        `/files/${fileKey}/meta`,
+      );
+      // The live API nests metadata under `file`, while the spec types describe it at the top level
+      const meta = "file" in response ? response.file : response;
+      const isFresh = meta.version
+        ? meta.version === cached.version
+        : meta.last_touched_at === cached.lastModified;
+
+      if (isFresh) {
+        Logger.log(`[cache] Hit for ${endpoint} (version ${cached.version})`);
+        return cached.value;
+      }
+      Logger.log(`[cache] Stale entry for ${endpoint} (cached version ${cached.version})`);
+    } else {
+      Logger.log(`[cache] Miss for ${endpoint}`);
+    }
+
+    const response = await this.request<T>(endpoint);
+    await this.cache.set(cacheKey, {
+      version: response.version,
+      lastModified: response.lastModified,
+      value: response,
+    });
+
+    return response;
+  }
+
   /**
    * Builds URL query parameters for SVG image requests.
    */
@@ -95,7 +168,7 @@ export class FigmaService {
   async getNodeRenderUrls(
     fileKey: string,
     nodeIds: string[],
-    format: "png" | "svg",
+    format: "png" | "svg" | "pdf",
     options: { pngScale?: number; svgOptions?: SvgOptions } = {},
   ): Promise<Record<string, string>> {
     if (nodeIds.length === 0) return {};
@@ -105,6 +178,10 @@ export class FigmaService {
       const endpoint = `/images/${fileKey}?ids=${nodeIds.join(",")}&format=png&scale=${scale}`;
       const response = await this.request<GetImagesResponse>(endpoint);
       return this.filterValidImages(response.images);
+    } else if (format === "pdf") {
+      const endpoint = `/images/${fileKey}?ids=${nodeIds.join(",")}&format=pdf`;
+      const response = await this.request<GetImagesResponse>(endpoint);
+      return this.filterValidImages(response.images);
     } else {
       const svgOptions = options.svgOptions || {
         outlineText: true,
@@ -118,21 +195,61 @@ export class FigmaService {
     }
   }
 
+  /**
+   * Render nodes as SVG and return their markup. Downloads are retried like image downloads, and
+   * a node that still fails doesn't fail the others.
+   *
+   * @returns Markup keyed by node ID, and the reason each node that couldn't be rendered or
+   * downloaded failed
+   */
+  async getNodeSvgMarkup(
+    fileKey: string,
+    nodeIds: string[],
+    svgOptions?: SvgOptions,
+  ): Promise<{ markup: Record<string, string>; failures: Record<string, string> }> {
+    const svgUrls = await this.getNodeRenderUrls(fileKey, nodeIds, "svg", { svgOptions });
+
+    const markup: Record<string, string> = {};
+    const failures: Record<string, string> = {};
+    for (const nodeId of nodeIds) {
+      if (!svgUrls[nodeId]) failures[nodeId] = "Figma could not render this node as SVG";
+    }
+
+    await mapWithConcurrency(
+      Object.entries(svgUrls),
+      getImageConcurrency(),
+      async ([nodeId, url]) => {
+        try {
+          markup[nodeId] = (await fetchImage(url)).toString("utf8");
+        } catch (error) {
+          failures[nodeId] = error instanceof Error ? error.message : String(error);
+        }
+      },
+    );
+
+    return { markup, failures };
+  }
+
   /**
    * Download images method with post-processing support for cropping and returning image dimensions.
    *
    * Supports:
    * - Image fills vs rendered nodes (based on imageRef vs nodeId)
-   * - PNG vs SVG format (based on filename extension)
-   * - Image cropping based on transform matrices
+   * - Output format based on filename extension: SVG and PDF are rendered directly, raster formats
+   *   (PNG, JPEG, WebP, AVIF) are rendered as PNG and converted
+   * - Responsive variants and srcset generation for raster formats
+   * - Image transforms (crop, scale, stretch, rotation, flips), paint rotation and image filters
    * - CSS variable generation for image dimensions
-   * - S3 upload (always enabled - requires s3Config)
+   * - Storing results with the given storage backend (S3, local directory, data URIs)
+   *
+   * Failures are reported per image rather than failing the whole batch: nodes Figma can't
+   * render, missing image fills and download or storage errors each get their own status and
+   * reason, after transient failures have been retried.
    *
-   * @returns Array of ImageProcessingResult with S3 URLs
+   * @returns One ImageDownloadResult per item, in the same order as the items
    */
   async downloadImages(
     fileKey: string,
-    localPath: string,
     items: Array<{
       imageRef?: string;
       nodeId?: string;
@@ -140,129 +257,130 @@ export class FigmaService {
       needsCropping?: boolean;
       cropTransform?: any;
       requiresImageDimensions?: boolean;
+      containerAspectRatio?: number;
+      rotation?: number;
+      filters?: ImageFilters;
     }>,
     options: {
       pngScale?: number;
       svgOptions?: SvgOptions;
-      uploadToS3: boolean;
-      s3Config: import("../utils/s3-upload.js").S3Config;
+      storage: ImageStorage;
+      outputOptions?: ImageOutputOptions;
     },
-  ): Promise<ImageProcessingResult[]> {
+  ): Promise<ImageDownloadResult[]> {
     if (items.length === 0) return [];
 
-    const sanitizedPath = path.normalize(localPath).replace(/^(\.\.(\/|\\|$))+/, "");
-    const resolvedPath = path.resolve(sanitizedPath);
-    if (!resolvedPath.startsWith(path.resolve(process.cwd()))) {
-      throw new Error("Invalid path specified. Directory traversal is not allowed.");
-    }
-
-    const { pngScale = 2, svgOptions, uploadToS3, s3Config } = options;
-    const downloadPromises: Promise<ImageProcessingResult[]>[] = [];
+    const { pngScale = 2, svgOptions, storage, outputOptions } = options;
+    const imageUrls = new Map<(typeof items)[number], string>();
+    const urlFailures = new Map<(typeof items)[number], string>();
 
     // Separate items by type
     const imageFills = items.filter(
       (item): item is typeof item & { imageRef: string } => !!item.imageRef,
     );
     const renderNodes = items.filter(
-      (item): item is typeof item & { nodeId: string } => !!item.nodeId,
+      (item): item is typeof item & { nodeId: string } => !!item.nodeId && !item.imageRef,
     );
 
-    // Download image fills with processing
+    // Look up image fill URLs
     if (imageFills.length > 0) {
-      const fillUrls = await this.getImageFillUrls(fileKey);
-      const fillDownloads = imageFills
-        .map(({ imageRef, fileName, needsCropping, cropTransform, requiresImageDimensions }) => {
-          const imageUrl = fillUrls[imageRef];
-          return imageUrl
-            ? downloadAndProcessImage(
-                fileName,
-                resolvedPath,
-                imageUrl,
-                needsCropping,
-                cropTransform,
-                requiresImageDimensions,
-                uploadToS3,
-                s3Config,
-              )
-            : null;
-        })
-        .filter((promise): promise is Promise<ImageProcessingResult> => promise !== null);
-
-      if (fillDownloads.length > 0) {
-        downloadPromises.push(Promise.all(fillDownloads));
+      try {
+        const fillUrls = await this.getImageFillUrls(fileKey);
+        for (const item of imageFills) {
+          const url = fillUrls[item.imageRef];
+          if (url) imageUrls.set(item, url);
+          else urlFailures.set(item, `No image fill found for imageRef ${item.imageRef}`);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        for (const item of imageFills) urlFailures.set(item, reason);
       }
     }
 
-    // Download rendered nodes with processing
+    // Render nodes, grouped by output format
     if (renderNodes.length > 0) {
-      const pngNodes = renderNodes.filter((node) => !node.fileName.toLowerCase().endsWith(".svg"));
-      const svgNodes = renderNodes.filter((node) => node.fileName.toLowerCase().endsWith(".svg"));
-
-      // Download PNG renders
-      if (pngNodes.length > 0) {
-        const pngUrls = await this.getNodeRenderUrls(
-          fileKey,
-          pngNodes.map((n) => n.nodeId),
-          "png",
-          { pngScale },
-        );
-        const pngDownloads = pngNodes
-          .map(({ nodeId, fileName, needsCropping, cropTransform, requiresImageDimensions }) => {
-            const imageUrl = pngUrls[nodeId];
-            return imageUrl
-              ? downloadAndProcessImage(
-                  fileName,
-                  resolvedPath,
-                  imageUrl,
-                  needsCropping,
-                  cropTransform,
-                  requiresImageDimensions,
-                  uploadToS3,
-                  s3Config,
-                )
-              : null;
-          })
-          .filter((promise): promise is Promise<ImageProcessingResult> => promise !== null);
-
-        if (pngDownloads.length > 0) {
-          downloadPromises.push(Promise.all(pngDownloads));
-        }
-      }
+      const getRenderFormat = (fileName: string) => {
+        const extension = path.extname(fileName).toLowerCase();
+        return extension === ".svg" ? "svg" : extension === ".pdf" ? "pdf" : "png";
+      };
 
-      // Download SVG renders
-      if (svgNodes.length > 0) {
-        const svgUrls = await this.getNodeRenderUrls(
-          fileKey,
-          svgNodes.map((n) => n.nodeId),
-          "svg",
-          { svgOptions },
-        );
-        const svgDownloads = svgNodes
-          .map(({ nodeId, fileName, needsCropping, cropTransform, requiresImageDimensions }) => {
-            const imageUrl = svgUrls[nodeId];
-            return imageUrl
-              ? downloadAndProcessImage(
-                  fileName,
-                  resolvedPath,
-                  imageUrl,
-                  needsCropping,
-                  cropTransform,
-                  requiresImageDimensions,
-                  uploadToS3,
-                  s3Config,
-                )
-              : null;
-          })
-          .filter((promise): promise is Promise<ImageProcessingResult> => promise !== null);
-
-        if (svgDownloads.length > 0) {
-          downloadPromises.push(Promise.all(svgDownloads));
+      for (const format of ["png", "svg", "pdf"] as const) {
+        const formatNodes = renderNodes.filter((node) => getRenderFormat(node.fileName) === format);
+        if (formatNodes.length === 0) continue;
+
+        try {
+          const renderUrls = await this.getNodeRenderUrls(
+            fileKey,
+            formatNodes.map((n) => n.nodeId),
+            format,
+            { pngScale, svgOptions },
+          );
+          for (const item of formatNodes) {
+            const url = renderUrls[item.nodeId];
+            if (url) imageUrls.set(item, url);
+            else
+              urlFailures.set(
+                item,
+                `Figma could not render node ${item.nodeId} as ${format.toUpperCase()} (it may be hidden, empty or deleted)`,
+              );
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          for (const item of formatNodes) urlFailures.set(item, reason);
         }
       }
     }
 
-    const results = await Promise.all(downloadPromises);
-    return results.flat();
+    // Images are held in memory while they're processed, so only a few are handled at once
+    return mapWithConcurrency(items, getImageConcurrency(), async (item) => {
+      const { fileName, nodeId, imageRef } = item;
+      const imageUrl = imageUrls.get(item);
+      if (!imageUrl) {
+        return {
+          fileName,
+          nodeId,
+          imageRef,
+          status: "render_failed" as const,
+          reason: urlFailures.get(item) ?? "Item has neither a nodeId nor an imageRef",
+        };
+      }
+
+      try {
+        const image = await downloadAndProcessImage(
+          fileName,
+          imageUrl,
+          item.needsCropping,
+          item.cropTransform,
+          item.requiresImageDimensions,
+          storage,
+          outputOptions,
+          {
+            containerAspectRatio: item.containerAspectRatio,
+            rotation: item.rotation,
+            filters: item.filters,
+          },
+        );
+        return {
+          fileName,
+          nodeId,
+          imageRef,
+          status: image.skipped ? ("skipped" as const) : ("uploaded" as const),
+          image,
+        };
+      } catch (error) {
+        Logger.error(`Failed to download ${fileName}:`, error);
+        return {
+          fileName,
+          nodeId,
+          imageRef,
+          status:
+            error instanceof ImageUploadError
+              ? ("upload_failed" as const)
+              : ("render_failed" as const),
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
   }
 
   /**
@@ -272,7 +390,7 @@ export class FigmaService {
     const endpoint = `/files/${fileKey}${depth ? `?depth=${depth}` : ""}`;
     Logger.log(`Retrieving raw Figma file: ${fileKey} (depth: ${depth ?? "default"})`);
 
-    const response = await this.request<GetFileResponse>(endpoint);
+    const response = await this.cachedRequest<GetFileResponse>(fileKey, endpoint);
     writeLogs("figma-raw.json", response);
 
     return response;
@@ -291,9 +409,36 @@ export class FigmaService {
       `Retrieving raw Figma node: ${nodeId} from ${fileKey} (depth: ${depth ?? "default"})`,
     );
 
-    const response = await this.request<GetFileNodesResponse>(endpoint);
+    const response = await this.cachedRequest<GetFileNodesResponse>(fileKey, endpoint);
     writeLogs("figma-raw.json", response);
 
     return response;
   }
+
+  /**
+   * Get local variables and variable collections for a file, including remote variables that are
+   * used in the file.
+   */
+  async getLocalVariables(fileKey: string): Promise<GetLocalVariablesResponse> {
+    const endpoint = `/files/${fileKey}/variables/local`;
+    Logger.log(`Retrieving local variables for ${fileKey}`);
+
+    const response = await this.request<GetLocalVariablesResponse>(endpoint);
+    writeLogs("figma-variables-local.json", response);
+
+    return response;
+  }
+
+  /**
+   * Get variables and variable collections published from a file.
+   */
+  async getPublishedVariables(fileKey: string): Promise<GetPublishedVariablesResponse> {
+    const endpoint = `/files/${fileKey}/variables/published`;
+    Logger.log(`Retrieving published variables for ${fileKey}`);
+
+    const response = await this.request<GetPublishedVariablesResponse>(endpoint);
+    writeLogs("figma-variables-published.json", response);
+
+    return response;
+  }
 }
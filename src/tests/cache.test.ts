@@ -0,0 +1,49 @@
+import { MemoryCache, type CacheEntry } from "~/utils/cache.js";
+
+// Roughly `bytes` long once serialized
+const entry = (bytes: number): CacheEntry<string> => ({
+  version: "1",
+  lastModified: "",
+  value: "x".repeat(bytes),
+});
+
+describe("MemoryCache", () => {
+  it("evicts the least recently used entries once over the byte limit", async () => {
+    const cache = new MemoryCache(2500);
+    await cache.set("a", entry(1000));
+    await cache.set("b", entry(1000));
+    await cache.get("a");
+    await cache.set("c", entry(1000));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  it("doesn't count a replaced entry twice", async () => {
+    const cache = new MemoryCache(2500);
+    await cache.set("a", entry(1000));
+    await cache.set("b", entry(1000));
+    await cache.set("b", entry(1000));
+
+    expect(await cache.get("a")).toBeDefined();
+  });
+
+  it("skips responses larger than the whole cache", async () => {
+    const cache = new MemoryCache(2500);
+    await cache.set("a", entry(1000));
+    await cache.set("huge", entry(5000));
+
+    expect(await cache.get("huge")).toBeUndefined();
+    expect(await cache.get("a")).toBeDefined();
+  });
+
+  it("also honors an entry limit", async () => {
+    const cache = new MemoryCache(Infinity, 1);
+    await cache.set("a", entry(10));
+    await cache.set("b", entry(10));
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.get("b")).toBeDefined();
+  });
+});
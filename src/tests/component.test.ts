@@ -0,0 +1,130 @@
+import type { GetFileNodesResponse } from "@figma/rest-api-spec";
+import { layoutAndText, simplifyComponentDefinitions } from "~/extractors/index.js";
+import { parseVariantProperties, simplifyPropertyDefinitions } from "~/transformers/component.js";
+import { container, textNode } from "./fixtures.js";
+
+const label = (id: string) => textNode("Label", { id, name: "Label" });
+
+function response(document: unknown, extra: object = {}) {
+  return {
+    name: "Library",
+    nodes: { "0:1": { document, components: {}, componentSets: {}, styles: {}, ...extra } },
+  } as unknown as GetFileNodesResponse;
+}
+
+describe("parseVariantProperties", () => {
+  it("reads property pairs from a variant name", () => {
+    expect(parseVariantProperties("Size=Large, State = Hover")).toEqual({
+      Size: "Large",
+      State: "Hover",
+    });
+  });
+
+  it("ignores parts that aren't name=value pairs", () => {
+    expect(parseVariantProperties("Default")).toEqual({});
+    expect(parseVariantProperties("Size=Large, a=b=c")).toEqual({ Size: "Large" });
+  });
+});
+
+describe("simplifyPropertyDefinitions", () => {
+  it("keeps property keys and reduces preferred values to component keys", () => {
+    expect(
+      simplifyPropertyDefinitions({
+        "Label#12:0": { type: "TEXT", defaultValue: "Button" },
+        Size: { type: "VARIANT", defaultValue: "Small", variantOptions: ["Small", "Large"] },
+        "Icon#3:1": {
+          type: "INSTANCE_SWAP",
+          defaultValue: "5:1",
+          preferredValues: [{ type: "COMPONENT", key: "abc" }],
+        },
+      }),
+    ).toEqual({
+      "Label#12:0": {
+        type: "TEXT",
+        defaultValue: "Button",
+        variantOptions: undefined,
+        preferredValues: undefined,
+      },
+      Size: {
+        type: "VARIANT",
+        defaultValue: "Small",
+        variantOptions: ["Small", "Large"],
+        preferredValues: undefined,
+      },
+      "Icon#3:1": {
+        type: "INSTANCE_SWAP",
+        defaultValue: "5:1",
+        variantOptions: undefined,
+        preferredValues: ["abc"],
+      },
+    });
+  });
+});
+
+describe("simplifyComponentDefinitions", () => {
+  const buttonSet = container(
+    "COMPONENT_SET",
+    [
+      container("COMPONENT", [label("1:3")], { id: "1:2", name: "Size=Small, State=Default" }),
+      container("COMPONENT", [label("1:5")], { id: "1:4", name: "Size=Large, State=Default" }),
+    ],
+    {
+      id: "1:1",
+      name: "Button",
+      componentPropertyDefinitions: {
+        Size: { type: "VARIANT", defaultValue: "Small", variantOptions: ["Small", "Large"] },
+      },
+    },
+  );
+  const icon = container("COMPONENT", [], { id: "2:1", name: "Icon" });
+  const page = container("FRAME", [buttonSet, container("FRAME", [icon], { id: "0:3" })], {
+    id: "0:2",
+  });
+
+  const library = simplifyComponentDefinitions(
+    response(page, {
+      components: {
+        "1:2": { key: "small", name: "Size=Small, State=Default", description: "Compact" },
+        "2:1": { key: "icon", name: "Icon", description: "" },
+      },
+      componentSets: { "1:1": { key: "button", name: "Button", description: "" } },
+    }),
+    layoutAndText,
+  );
+
+  it("lists component sets with their variants and standalone components", () => {
+    expect(library.name).toBe("Library");
+    expect(library.components.map(({ id, key, type }) => ({ id, key, type }))).toEqual([
+      { id: "1:1", key: "button", type: "COMPONENT_SET" },
+      { id: "2:1", key: "icon", type: "COMPONENT" },
+    ]);
+    // Empty descriptions are omitted
+    expect(library.components[1].description).toBeUndefined();
+  });
+
+  it("describes each variant by its property values", () => {
+    const [button] = library.components;
+
+    expect(button.propertyDefinitions?.Size.variantOptions).toEqual(["Small", "Large"]);
+    expect(button.node).toBeUndefined();
+    expect(
+      button.variants?.map(({ id, properties, description }) => ({ id, properties, description })),
+    ).toEqual([
+      { id: "1:2", properties: { Size: "Small", State: "Default" }, description: "Compact" },
+      { id: "1:4", properties: { Size: "Large", State: "Default" }, description: undefined },
+    ]);
+  });
+
+  it("simplifies each variant's tree with shared global vars", () => {
+    const [small, large] = library.components[0].variants!;
+
+    expect(small.node?.children?.[0]).toEqual(
+      expect.objectContaining({ id: "1:3", type: "TEXT", text: "Label" }),
+    );
+    // Both labels share the same text style entry
+    expect(large.node?.children?.[0].textStyle).toBe(small.node?.children?.[0].textStyle);
+    expect(library.globalVars.styles[small.node!.children![0].textStyle!]).toEqual(
+      expect.objectContaining({ fontFamily: "Inter", fontSize: 16 }),
+    );
+  });
+});
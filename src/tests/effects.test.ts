@@ -0,0 +1,192 @@
+import { extractFromDesign, visualsExtractor } from "~/extractors/index.js";
+import type { TraversalContext } from "~/extractors/index.js";
+import { buildSimplifiedEffects } from "~/transformers/effects.js";
+import { box, figmaNode } from "./fixtures.js";
+
+const BLACK = { r: 0, g: 0, b: 0, a: 0.25 };
+
+function shadow(type: "DROP_SHADOW" | "INNER_SHADOW", extra: object = {}) {
+  return {
+    type,
+    visible: true,
+    color: BLACK,
+    offset: { x: 0, y: 4 },
+    radius: 8,
+    spread: 2,
+    blendMode: "NORMAL",
+    ...extra,
+  };
+}
+
+const node = (type: string, effects: unknown[], props: object = {}) =>
+  figmaNode(type, { effects, absoluteBoundingBox: box(0, 0, 200, 100), ...props });
+
+describe("buildSimplifiedEffects", () => {
+  it("lists drop shadows before inner shadows and skips hidden ones", () => {
+    const effects = buildSimplifiedEffects(
+      node("RECTANGLE", [
+        shadow("INNER_SHADOW", { offset: { x: 1, y: 1 }, radius: 2 }),
+        shadow("DROP_SHADOW", { visible: false }),
+        shadow("DROP_SHADOW", { blendMode: "MULTIPLY", showShadowBehindNode: true }),
+      ]),
+    );
+
+    expect(effects.boxShadow).toBe(
+      "0px 4px 8px 2px rgba(0, 0, 0, 0.25), inset 1px 1px 2px 2px rgba(0, 0, 0, 0.25)",
+    );
+    expect(effects.shadows).toEqual([
+      {
+        type: "drop",
+        offsetX: 0,
+        offsetY: 4,
+        blur: 8,
+        spread: 2,
+        color: "rgba(0, 0, 0, 0.25)",
+        blendMode: "multiply",
+        showBehindNode: true,
+      },
+      { type: "inner", offsetX: 1, offsetY: 1, blur: 2, spread: 2, color: "rgba(0, 0, 0, 0.25)" },
+    ]);
+  });
+
+  it("drops spread where Figma ignores it", () => {
+    const unclipped = buildSimplifiedEffects(
+      node("FRAME", [shadow("DROP_SHADOW")], { clipsContent: false, fills: [] }),
+    );
+    const vector = buildSimplifiedEffects(node("VECTOR", [shadow("DROP_SHADOW")]));
+    const clipped = buildSimplifiedEffects(
+      node("FRAME", [shadow("DROP_SHADOW")], {
+        clipsContent: true,
+        fills: [{ type: "SOLID", visible: true, color: BLACK }],
+      }),
+    );
+
+    expect(unclipped.boxShadow).toBe("0px 4px 8px 0px rgba(0, 0, 0, 0.25)");
+    expect(vector.shadows?.[0].spread).toBeUndefined();
+    expect(clipped.shadows?.[0].spread).toBe(2);
+  });
+
+  it("uses text-shadow for text, keeping only drop shadows", () => {
+    const effects = buildSimplifiedEffects(
+      node("TEXT", [shadow("DROP_SHADOW"), shadow("INNER_SHADOW")]),
+    );
+
+    expect(effects.boxShadow).toBeUndefined();
+    expect(effects.textShadow).toBe("0px 4px 8px rgba(0, 0, 0, 0.25)");
+    expect(effects.shadows).toHaveLength(2);
+  });
+
+  it("maps layer and background blurs to filter and backdrop-filter", () => {
+    const effects = buildSimplifiedEffects(
+      node("RECTANGLE", [
+        { type: "LAYER_BLUR", visible: true, radius: 4 },
+        { type: "BACKGROUND_BLUR", visible: true, radius: 12 },
+      ]),
+    );
+
+    expect(effects).toEqual({ filter: "blur(4px)", backdropFilter: "blur(12px)" });
+  });
+
+  it("fades a progressive blur in with a mask along its direction", () => {
+    const effects = buildSimplifiedEffects(
+      node("RECTANGLE", [
+        {
+          type: "BACKGROUND_BLUR",
+          blurType: "PROGRESSIVE",
+          visible: true,
+          radius: 20,
+          startRadius: 5,
+          startOffset: { x: 0.5, y: 0 },
+          endOffset: { x: 0.5, y: 1 },
+        },
+      ]),
+    );
+
+    expect(effects.backdropFilter).toBe("blur(20px)");
+    // Top to bottom: 180deg, from 25% strength at the top edge to full strength at the bottom
+    expect(effects.progressiveBlurs).toEqual([
+      {
+        property: "backdropFilter",
+        startRadius: 5,
+        radius: 20,
+        maskImage: "linear-gradient(180deg, rgba(0, 0, 0, 0.25) 0%, rgba(0, 0, 0, 1) 100%)",
+      },
+    ]);
+  });
+
+  it("places mask stops at the blur offsets along its direction", () => {
+    const effects = buildSimplifiedEffects(
+      node("RECTANGLE", [
+        {
+          type: "LAYER_BLUR",
+          blurType: "PROGRESSIVE",
+          visible: true,
+          radius: 10,
+          startRadius: 0,
+          startOffset: { x: 0.25, y: 0.5 },
+          endOffset: { x: 0.75, y: 0.5 },
+        },
+      ]),
+    );
+
+    // Left to right across the middle half of the node
+    expect(effects.progressiveBlurs?.[0].maskImage).toBe(
+      "linear-gradient(90deg, rgba(0, 0, 0, 0) 25%, rgba(0, 0, 0, 1) 75%)",
+    );
+  });
+});
+
+describe("effect styles", () => {
+  // Two shadows and a blur, like a typical elevation style
+  const layers = [
+    shadow("DROP_SHADOW"),
+    shadow("DROP_SHADOW", { offset: { x: 0, y: 1 }, radius: 2, spread: 0 }),
+    { type: "LAYER_BLUR", visible: true, radius: 4 },
+  ];
+  const styled = (type: string) => node(type, layers, { styles: { effect: "S:1" } });
+
+  const { nodes, globalVars } = extractFromDesign(
+    [styled("RECTANGLE"), styled("TEXT"), styled("ELLIPSE")],
+    [visualsExtractor],
+    {},
+    {
+      styles: {},
+      extraStyles: {
+        "S:1": {
+          key: "k",
+          name: "Elevation/2",
+          styleType: "EFFECT",
+          remote: false,
+          description: "",
+        },
+      },
+    } as TraversalContext["globalVars"],
+  );
+  const [rectangle, text, ellipse] = nodes;
+
+  it("renders every layer of the style for each node", () => {
+    expect(globalVars.styles[rectangle.effects!]).toEqual(
+      expect.objectContaining({
+        boxShadow: "0px 4px 8px 2px rgba(0, 0, 0, 0.25), 0px 1px 2px 0px rgba(0, 0, 0, 0.25)",
+        filter: "blur(4px)",
+      }),
+    );
+    expect(globalVars.styles[text.effects!]).toEqual(
+      expect.objectContaining({
+        textShadow: "0px 4px 8px rgba(0, 0, 0, 0.25), 0px 1px 2px rgba(0, 0, 0, 0.25)",
+        filter: "blur(4px)",
+      }),
+    );
+  });
+
+  it("keeps the style name as a label and shares values only between matching nodes", () => {
+    expect(nodes.map(({ effectStyle }) => effectStyle)).toEqual([
+      "Elevation/2",
+      "Elevation/2",
+      "Elevation/2",
+    ]);
+    expect(text.effects).not.toBe(rectangle.effects);
+    expect(ellipse.effects).toBe(rectangle.effects);
+    expect(globalVars.styles["Elevation/2"]).toBeUndefined();
+  });
+});
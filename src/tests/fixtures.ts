@@ -0,0 +1,43 @@
+import type { Node as FigmaDocumentNode, Rectangle, RGBA } from "@figma/rest-api-spec";
+
+/**
+ * Build a visible Figma node of the given type. Tests only set the fields the code under test
+ * reads, so the result is cast instead of being checked against the full node type.
+ */
+export function figmaNode(type: string, props: object = {}): FigmaDocumentNode {
+  return { id: "1:1", name: type, type, visible: true, ...props } as unknown as FigmaDocumentNode;
+}
+
+/**
+ * Build a FRAME-like container (FRAME, GROUP, COMPONENT, INSTANCE, ...) around `children`.
+ */
+export function container(
+  type: string,
+  children: FigmaDocumentNode[],
+  props: object = {},
+): FigmaDocumentNode {
+  return figmaNode(type, { clipsContent: false, children, ...props });
+}
+
+export const baseTextStyle = { fontFamily: "Inter", fontWeight: 400, fontSize: 16 };
+
+/**
+ * Build a TEXT node with a uniform `baseTextStyle`.
+ */
+export function textNode(characters: string, props: object = {}): FigmaDocumentNode {
+  return figmaNode("TEXT", {
+    characters,
+    style: baseTextStyle,
+    characterStyleOverrides: [],
+    styleOverrideTable: {},
+    ...props,
+  });
+}
+
+export function box(x: number, y: number, width: number, height: number): Rectangle {
+  return { x, y, width, height };
+}
+
+export function solid(color: RGBA, props: object = {}) {
+  return { type: "SOLID" as const, visible: true, blendMode: "NORMAL" as const, color, ...props };
+}
@@ -0,0 +1,129 @@
+import type { Node as FigmaDocumentNode, Style } from "@figma/rest-api-spec";
+import { buildFontManifest, getGoogleFontFamilies } from "~/utils/font-manifest.js";
+import { container, textNode } from "./fixtures.js";
+
+const inter = { fontFamily: "Inter", fontWeight: 400, fontStyle: "Regular" };
+
+const text = (id: string, characters: string, props: object = {}) =>
+  textNode(characters, { id, name: id, style: inter, ...props });
+
+function manifest(
+  children: FigmaDocumentNode[],
+  styles?: Record<string, Style>,
+  googleFonts?: Set<string>,
+) {
+  return buildFontManifest([container("FRAME", children, { id: "0:1" })], styles, googleFonts);
+}
+
+describe("buildFontManifest", () => {
+  it("counts text layers and characters per family and variant", () => {
+    const { fonts } = manifest([
+      text("1:1", "Hello"),
+      text("1:2", "Bold", {
+        characterStyleOverrides: [1, 1, 0, 0],
+        styleOverrideTable: {
+          1: { fontFamily: "Inter", fontWeight: 700, fontStyle: "Bold" },
+        },
+      }),
+      text("1:3", "Serif", {
+        style: { fontFamily: "Lora", fontWeight: 400, italic: true, fontStyle: "Italic" },
+      }),
+    ]);
+
+    expect(fonts).toEqual([
+      {
+        family: "Inter",
+        textNodes: 2,
+        variants: [
+          expect.objectContaining({ weight: 400, style: "normal", textNodes: 2, characters: 7 }),
+          expect.objectContaining({ weight: 700, style: "normal", textNodes: 1, characters: 2 }),
+        ],
+      },
+      {
+        family: "Lora",
+        textNodes: 1,
+        variants: [
+          expect.objectContaining({ weight: 400, style: "italic", figmaStyles: ["Italic"] }),
+        ],
+      },
+    ]);
+  });
+
+  it("counts a layer once per font even when a style repeats across runs", () => {
+    const { fonts } = manifest([
+      text("1:1", "abab", {
+        characterStyleOverrides: [0, 1, 0, 1],
+        styleOverrideTable: { 1: { fontFamily: "Inter", fontWeight: 400, fontSize: 20 } },
+      }),
+    ]);
+
+    expect(fonts[0].textNodes).toBe(1);
+    expect(fonts[0].variants).toEqual([
+      expect.objectContaining({ weight: 400, textNodes: 1, characters: 4 }),
+    ]);
+  });
+
+  it("skips hidden layers and names text styles", () => {
+    const { fonts } = manifest(
+      [
+        text("1:1", "Shown", { styles: { text: "S:1" } }),
+        text("1:2", "Hidden", { visible: false }),
+      ],
+      { "S:1": { key: "s", name: "Body", styleType: "TEXT", remote: false, description: "" } },
+    );
+
+    expect(fonts[0].variants[0]).toEqual(
+      expect.objectContaining({ textNodes: 1, characters: 5, textStyles: ["Body"] }),
+    );
+  });
+
+  it("flags Google Fonts when the catalog is available, and warns when it isn't", () => {
+    const children = [text("1:1", "a"), text("1:2", "b", { style: { fontFamily: "Acme Sans" } })];
+
+    expect(manifest(children, {}, new Set(["inter"])).fonts).toEqual([
+      expect.objectContaining({ family: "Acme Sans", isGoogleFont: false }),
+      expect.objectContaining({ family: "Inter", isGoogleFont: true }),
+    ]);
+    const withoutCatalog = manifest(children);
+    expect(withoutCatalog.fonts[0]).not.toHaveProperty("isGoogleFont");
+    expect(withoutCatalog.warnings).toHaveLength(1);
+  });
+});
+
+describe("getGoogleFontFamilies", () => {
+  const originalFetch = globalThis.fetch;
+  const originalNow = Date.now;
+  let now = 0;
+  let requests = 0;
+  let respond: () => Response;
+
+  beforeAll(() => {
+    Date.now = () => now;
+    globalThis.fetch = (async (_url: unknown, init?: RequestInit) => {
+      requests++;
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      return respond();
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    Date.now = originalNow;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("caches a failure until the cooldown passes, then caches the catalog", async () => {
+    respond = () => new Response("unavailable", { status: 503 });
+    expect(await getGoogleFontFamilies()).toBeUndefined();
+    now += 60_000;
+    expect(await getGoogleFontFamilies()).toBeUndefined();
+    expect(requests).toBe(1);
+
+    respond = () =>
+      new Response(`)]}'\n${JSON.stringify({ familyMetadataList: [{ family: "Inter" }] })}`);
+    now += 5 * 60_000;
+    expect(await getGoogleFontFamilies()).toEqual(new Set(["inter"]));
+    now += 60 * 60_000;
+    expect(await getGoogleFontFamilies()).toEqual(new Set(["inter"]));
+    expect(requests).toBe(2);
+  });
+});
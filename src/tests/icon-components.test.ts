@@ -0,0 +1,109 @@
+import ts from "typescript";
+import { generateIconComponents, toComponentName } from "~/utils/icon-components.js";
+
+const svg = (content: string) =>
+  `<svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">${content}</svg>`;
+
+const arrow = svg('<path fill-rule="evenodd" d="M0 0h20v20H0z" fill="#111111"/>');
+
+function syntaxErrors(source: string, fileName: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.ReactJSX },
+  });
+  return diagnostics.map(({ messageText }) => ts.flattenDiagnosticMessageText(messageText, "\n"));
+}
+
+describe("toComponentName", () => {
+  it("names components after the last segment of the layer path", () => {
+    expect(toComponentName("icons/24/arrow-left")).toBe("ArrowLeftIcon");
+    expect(toComponentName("chevronDown")).toBe("ChevronDownIcon");
+    expect(toComponentName("Search Icon")).toBe("SearchIcon");
+    expect(toComponentName("24")).toBe("Icon24Icon");
+  });
+});
+
+describe("generateIconComponents", () => {
+  it("generates a React component with JSX attribute names", () => {
+    const { componentName, recolorable, files } = generateIconComponents(
+      "1:2",
+      "icons/arrow-left",
+      arrow,
+      ["react"],
+    );
+    const source = files["ArrowLeftIcon.tsx"];
+
+    expect(componentName).toBe("ArrowLeftIcon");
+    // Single-color icons follow the color prop
+    expect(recolorable).toBe(true);
+    expect(source).toContain("export function ArrowLeftIcon({\n  size = 20,");
+    expect(source).toContain('<path fillRule="evenodd" d="M0 0h20v20H0z" fill="currentColor"/>');
+    expect(syntaxErrors(source, "ArrowLeftIcon.tsx")).toEqual([]);
+  });
+
+  it("escapes braces so SVG text can't inject JSX expressions", () => {
+    const { files } = generateIconComponents(
+      "1:2",
+      "label",
+      svg('<text font-family="{x}">{alert(1)}</text>'),
+      ["react"],
+    );
+    const source = files["LabelIcon.tsx"];
+
+    expect(source).toContain('<text fontFamily="&#123;x&#125;">&#123;alert(1)&#125;</text>');
+    expect(syntaxErrors(source, "LabelIcon.tsx")).toEqual([]);
+  });
+
+  it("converts inline styles to style objects", () => {
+    const { files } = generateIconComponents(
+      "1:2",
+      "dot",
+      svg('<circle cx="10" cy="10" r="4" style="fill-opacity: 0.5; mix-blend-mode: multiply"/>'),
+      ["react"],
+    );
+
+    expect(files["DotIcon.tsx"]).toContain(
+      '<circle cx="10" cy="10" r="4" style={{ fillOpacity: "0.5", mixBlendMode: "multiply" }}/>',
+    );
+  });
+
+  it("generates a Vue single-file component", () => {
+    const { files } = generateIconComponents("1:2", "icons/arrow-left", arrow, ["vue"]);
+    const source = files["ArrowLeftIcon.vue"];
+
+    expect(Object.keys(files)).toEqual(["ArrowLeftIcon.vue"]);
+    expect(source).toContain("  size: 20,");
+    expect(source).toContain('<title v-if="title">{{ title }}</title>');
+    expect(source).toContain('<path fill-rule="evenodd" d="M0 0h20v20H0z" fill="currentColor"/>');
+  });
+
+  it("generates an inline SVG function that escapes its options", () => {
+    const { files } = generateIconComponents("1:2", "icons/arrow-left", arrow, ["svg"]);
+    const { outputText } = ts.transpileModule(files["arrow-left-icon.ts"], {
+      compilerOptions: { module: ts.ModuleKind.CommonJS },
+    });
+    const module = { exports: {} as Record<string, (options?: object) => string> };
+    new Function("module", "exports", outputText)(module, module.exports);
+    const { arrowLeftIcon } = module.exports;
+
+    expect(arrowLeftIcon()).toBe(
+      '<svg width="20" height="20" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg" fill="none" color="currentColor" aria-hidden="true"><path fill-rule="evenodd" d="M0 0h20v20H0z" fill="currentColor"/></svg>',
+    );
+    expect(arrowLeftIcon({ size: 32 })).toContain('width="32" height="32" viewBox="0 0 20 20"');
+    expect(arrowLeftIcon({ title: "<Back>" })).toContain(
+      'role="img"><title>&#60;Back&#62;</title><path',
+    );
+  });
+
+  it("keeps several colors as drawn", () => {
+    const { recolorable } = generateIconComponents(
+      "1:2",
+      "flag",
+      svg('<path d="M0 0h10v20H0z" fill="#FF0000"/><path d="M10 0h10v20H10z" fill="#0000FF"/>'),
+      ["react"],
+    );
+
+    expect(recolorable).toBe(false);
+  });
+});
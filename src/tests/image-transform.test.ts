@@ -0,0 +1,312 @@
+import sharp from "sharp";
+import type { Transform } from "@figma/rest-api-spec";
+import {
+  applyImageFilters,
+  applyImageTransform,
+  getCropRegion,
+  hasImageFilters,
+  rotateImage,
+} from "~/utils/image-transform.js";
+
+type Color = [number, number, number, number];
+
+const RED: Color = [255, 0, 0, 255];
+const GREEN: Color = [0, 255, 0, 255];
+const BLUE: Color = [0, 0, 255, 255];
+const YELLOW: Color = [255, 255, 0, 255];
+
+/**
+ * Build a PNG whose quadrants are red (top left), green (top right), blue (bottom left) and
+ * yellow (bottom right)
+ */
+async function quadrantImage(width: number, height: number): Promise<Buffer> {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = y < height / 2 ? (x < width / 2 ? RED : GREEN) : x < width / 2 ? BLUE : YELLOW;
+      data.set(color, (y * width + x) * 4);
+    }
+  }
+  return sharp(data, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
+
+async function readPixels(image: Buffer) {
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    width: info.width,
+    height: info.height,
+    at: (x: number, y: number): Color => {
+      const offset = (Math.round(y) * info.width + Math.round(x)) * 4;
+      return [data[offset], data[offset + 1], data[offset + 2], data[offset + 3]];
+    },
+  };
+}
+
+async function transform(image: Buffer, matrix: Transform, containerAspectRatio?: number) {
+  const result = await applyImageTransform(image, matrix, { containerAspectRatio });
+  if (!result) throw new Error("Expected a transformed image");
+  return { ...result, pixels: await readPixels(result.image) };
+}
+
+describe("applyImageTransform", () => {
+  it("keeps the image as-is for the identity transform", async () => {
+    const { width, height, pixels } = await transform(await quadrantImage(40, 20), [
+      [1, 0, 0],
+      [0, 1, 0],
+    ]);
+
+    expect([width, height]).toEqual([40, 20]);
+    expect(pixels.at(5, 5)).toEqual(RED);
+    expect(pixels.at(35, 15)).toEqual(YELLOW);
+  });
+
+  it("crops to the visible area for scale and translate", async () => {
+    const { width, height, cropRegion, pixels } = await transform(await quadrantImage(100, 100), [
+      [0.5, 0, 0.5],
+      [0, 0.5, 0],
+    ]);
+
+    expect([width, height]).toEqual([50, 50]);
+    expect(cropRegion).toEqual({ left: 50, top: 0, width: 50, height: 50 });
+    expect(pixels.at(5, 5)).toEqual(GREEN);
+    expect(pixels.at(45, 45)).toEqual(GREEN);
+  });
+
+  it("mirrors horizontally flipped images", async () => {
+    const { pixels } = await transform(await quadrantImage(40, 20), [
+      [-1, 0, 1],
+      [0, 1, 0],
+    ]);
+
+    expect(pixels.at(5, 5)).toEqual(GREEN);
+    expect(pixels.at(35, 5)).toEqual(RED);
+    expect(pixels.at(5, 15)).toEqual(YELLOW);
+  });
+
+  it("mirrors vertically flipped images", async () => {
+    const { pixels } = await transform(await quadrantImage(40, 20), [
+      [1, 0, 0],
+      [0, -1, 1],
+    ]);
+
+    expect(pixels.at(5, 5)).toEqual(BLUE);
+    expect(pixels.at(5, 15)).toEqual(RED);
+    expect(pixels.at(35, 5)).toEqual(YELLOW);
+  });
+
+  it("rotates images by quarter turns, swapping width and height", async () => {
+    // The container's top edge runs up the image's left edge: a clockwise quarter turn
+    const { width, height, pixels } = await transform(await quadrantImage(40, 20), [
+      [0, 1, 0],
+      [-1, 0, 1],
+    ]);
+
+    expect([width, height]).toEqual([20, 40]);
+    expect(pixels.at(2, 2)).toEqual(BLUE);
+    expect(pixels.at(17, 2)).toEqual(RED);
+    expect(pixels.at(2, 37)).toEqual(YELLOW);
+    expect(pixels.at(17, 37)).toEqual(GREEN);
+  });
+
+  it("rotates by arbitrary angles around the visible area", async () => {
+    // Rotate 45 degrees about the image center, keeping the container the size of the image
+    const angle = Math.PI / 4;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const { width, height, pixels } = await transform(await quadrantImage(100, 100), [
+      [cos, -sin, 0.5 - 0.5 * cos + 0.5 * sin],
+      [sin, cos, 0.5 - 0.5 * sin - 0.5 * cos],
+    ]);
+
+    expect([width, height]).toEqual([100, 100]);
+    // Image corners rotate out of view, leaving transparent corners in the container
+    expect(pixels.at(2, 2)[3]).toBe(0);
+    expect(pixels.at(97, 97)[3]).toBe(0);
+    // Container point (0.5, 0.2) maps to image point (~0.71, ~0.29): the green quadrant
+    expect(pixels.at(50, 20)).toEqual(GREEN);
+    // Container point (0.2, 0.5) maps to image point (~0.29, ~0.29): the red quadrant
+    expect(pixels.at(20, 50)).toEqual(RED);
+  });
+
+  it("pads with transparency where the image doesn't cover the container", async () => {
+    const { width, height, pixels } = await transform(await quadrantImage(40, 40), [
+      [2, 0, -0.5],
+      [0, 2, -0.5],
+    ]);
+
+    expect([width, height]).toEqual([80, 80]);
+    expect(pixels.at(5, 5)[3]).toBe(0);
+    expect(pixels.at(75, 75)[3]).toBe(0);
+    expect(pixels.at(25, 25)).toEqual(RED);
+    expect(pixels.at(55, 55)).toEqual(YELLOW);
+  });
+
+  it("stretches to the container's aspect ratio", async () => {
+    const { width, height, pixels } = await transform(
+      await quadrantImage(100, 100),
+      [
+        [1, 0, 0],
+        [0, 1, 0],
+      ],
+      2,
+    );
+
+    expect([width, height]).toEqual([100, 50]);
+    expect(pixels.at(10, 10)).toEqual(RED);
+    expect(pixels.at(90, 40)).toEqual(YELLOW);
+  });
+
+  it("stretches rotated images to the container's aspect ratio", async () => {
+    const { width, height, pixels } = await transform(
+      await quadrantImage(40, 20),
+      [
+        [0, 1, 0],
+        [-1, 0, 1],
+      ],
+      1,
+    );
+
+    expect([width, height]).toEqual([20, 20]);
+    expect(pixels.at(2, 2)).toEqual(BLUE);
+    expect(pixels.at(17, 2)).toEqual(RED);
+    expect(pixels.at(17, 17)).toEqual(GREEN);
+  });
+
+  it("applies skew", async () => {
+    const { pixels } = await transform(
+      await quadrantImage(100, 100),
+      [
+        [1, 0.5, 0],
+        [0, 1, 0],
+      ],
+      1,
+    );
+
+    // Container point (u, v) shows image point (u + 0.5v, v)
+    expect(pixels.at(10, 10)).toEqual(RED);
+    expect(pixels.at(20, 90)).toEqual(YELLOW);
+    expect(pixels.at(90, 90)[3]).toBe(0);
+  });
+
+  it("stretches a thin sliver of the image without oversized intermediates", async () => {
+    // The top row fills the container, a 100x stretch to 10000 rows before the cut-out
+    const { width, height, pixels } = await transform(
+      await quadrantImage(100, 100),
+      [
+        [1, 0, 0],
+        [0, 0.01, 0],
+      ],
+      1,
+    );
+
+    expect([width, height]).toEqual([100, 100]);
+    expect(pixels.at(10, 10)).toEqual(RED);
+    expect(pixels.at(90, 90)).toEqual(GREEN);
+  });
+
+  it("returns undefined when nothing of the image is visible", async () => {
+    const result = await applyImageTransform(await quadrantImage(20, 20), [
+      [0, 0, 0],
+      [0, 0, 0],
+    ]);
+
+    expect(result).toBeUndefined();
+  });
+});
+
+describe("getCropRegion", () => {
+  it("clips the visible area to the image", () => {
+    expect(
+      getCropRegion({ width: 200, height: 100 }, [
+        [0.5, 0, 0.75],
+        [0, 1, 0],
+      ]),
+    ).toEqual({ left: 150, top: 0, width: 50, height: 100 });
+  });
+});
+
+describe("rotateImage", () => {
+  it("rotates counter-clockwise like Figma", async () => {
+    const pixels = await readPixels(await rotateImage(await quadrantImage(40, 20), 90));
+
+    expect([pixels.width, pixels.height]).toEqual([20, 40]);
+    expect(pixels.at(2, 2)).toEqual(GREEN);
+    expect(pixels.at(17, 37)).toEqual(BLUE);
+  });
+});
+
+describe("applyImageFilters", () => {
+  async function solid(color: Color) {
+    return sharp({
+      create: {
+        width: 4,
+        height: 4,
+        channels: 4,
+        background: { r: color[0], g: color[1], b: color[2], alpha: color[3] / 255 },
+      },
+    })
+      .png()
+      .toBuffer();
+  }
+
+  async function filteredColor(color: Color, filters: Parameters<typeof applyImageFilters>[1]) {
+    return (await readPixels(await applyImageFilters(await solid(color), filters))).at(1, 1);
+  }
+
+  it("ignores filters that are all zero", () => {
+    expect(hasImageFilters(undefined)).toBe(false);
+    expect(hasImageFilters({ exposure: 0, contrast: 0 })).toBe(false);
+    expect(hasImageFilters({ saturation: -0.5 })).toBe(true);
+  });
+
+  it("brightens with exposure", async () => {
+    const [r, g, b] = await filteredColor([60, 60, 60, 255], { exposure: 0.5 });
+    expect(r).toBe(120);
+    expect(g).toBe(120);
+    expect(b).toBe(120);
+  });
+
+  it("pushes colors away from mid-grey with contrast", async () => {
+    const [dark] = await filteredColor([64, 64, 64, 255], { contrast: 0.5 });
+    const [light] = await filteredColor([192, 192, 192, 255], { contrast: 0.5 });
+    expect(dark).toBeLessThan(64);
+    expect(light).toBeGreaterThan(192);
+  });
+
+  it("removes color with full desaturation", async () => {
+    const [r, g, b] = await filteredColor([200, 50, 50, 255], { saturation: -1 });
+    expect(Math.abs(r - g)).toBeLessThanOrEqual(2);
+    expect(Math.abs(g - b)).toBeLessThanOrEqual(2);
+  });
+
+  it("warms with temperature and shifts green with tint", async () => {
+    const [r, , b] = await filteredColor([128, 128, 128, 255], { temperature: 1 });
+    expect(r).toBeGreaterThan(128);
+    expect(b).toBeLessThan(128);
+
+    const [, g] = await filteredColor([128, 128, 128, 255], { tint: 1 });
+    expect(g).toBeLessThan(128);
+  });
+
+  it("lifts shadows and lowers highlights without clipping black and white", async () => {
+    const [shadow] = await filteredColor([60, 60, 60, 255], { shadows: 1 });
+    const [highlight] = await filteredColor([200, 200, 200, 255], { highlights: -1 });
+    const [black] = await filteredColor([0, 0, 0, 255], { shadows: 1 });
+    const [white] = await filteredColor([255, 255, 255, 255], { highlights: -1 });
+
+    expect(shadow).toBeGreaterThan(60);
+    expect(highlight).toBeLessThan(200);
+    expect(black).toBe(0);
+    expect(white).toBe(255);
+  });
+
+  it("keeps transparency", async () => {
+    const [, , , alpha] = await filteredColor([100, 100, 100, 128], { exposure: 0.5 });
+    expect(alpha).toBe(128);
+  });
+});
@@ -0,0 +1,179 @@
+import { extractFromDesign, interactionsExtractor } from "~/extractors/index.js";
+import type { TraversalContext } from "~/extractors/index.js";
+import { buildSimplifiedInteractions } from "~/transformers/interactions.js";
+import { figmaNode } from "./fixtures.js";
+
+const navigate = (destinationId: string | null, extra: object = {}) => ({
+  type: "NODE",
+  destinationId,
+  navigation: "NAVIGATE",
+  transition: null,
+  preserveScrollPosition: false,
+  ...extra,
+});
+
+const button = (interactions: unknown[]) => figmaNode("FRAME", { interactions });
+
+describe("buildSimplifiedInteractions", () => {
+  it("names node destinations and keeps their transitions", () => {
+    const interactions = buildSimplifiedInteractions(
+      button([
+        {
+          trigger: { type: "ON_CLICK" },
+          actions: [
+            navigate("2:1", {
+              navigation: "OVERLAY",
+              transition: {
+                type: "MOVE_IN",
+                duration: 300,
+                direction: "LEFT",
+                matchLayers: false,
+                easing: { type: "EASE_OUT" },
+              },
+              preserveScrollPosition: true,
+            }),
+          ],
+        },
+      ]),
+      { "2:1": "Menu" },
+    );
+
+    expect(interactions).toEqual([
+      {
+        trigger: "ON_CLICK",
+        delay: undefined,
+        keyCodes: undefined,
+        actions: [
+          {
+            type: "OVERLAY",
+            destinationId: "2:1",
+            destinationName: "Menu",
+            transition: { type: "MOVE_IN", duration: 300, easing: "ease-out", direction: "LEFT" },
+            preserveScrollPosition: true,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps destinations outside the walked nodes by ID only", () => {
+    const [interaction] = buildSimplifiedInteractions(
+      button([{ trigger: { type: "ON_CLICK" }, actions: [navigate("9:9")] }]),
+    )!;
+
+    expect(interaction.actions[0]).toEqual(
+      expect.objectContaining({ destinationId: "9:9", destinationName: undefined }),
+    );
+  });
+
+  it("reads delays, timeouts and key codes from triggers", () => {
+    const interactions = buildSimplifiedInteractions(
+      button([
+        { trigger: { type: "AFTER_TIMEOUT", timeout: 800 }, actions: [navigate("2:1")] },
+        { trigger: { type: "MOUSE_ENTER", delay: 0 }, actions: [navigate("2:1")] },
+        {
+          trigger: { type: "ON_KEY_DOWN", device: "KEYBOARD", keyCodes: [13] },
+          actions: [navigate("2:1")],
+        },
+      ]),
+    )!;
+
+    expect(
+      interactions.map(({ trigger, delay, keyCodes }) => ({ trigger, delay, keyCodes })),
+    ).toEqual([
+      { trigger: "AFTER_TIMEOUT", delay: 800, keyCodes: undefined },
+      // A zero delay is the default, so it's omitted
+      { trigger: "MOUSE_ENTER", delay: undefined, keyCodes: undefined },
+      { trigger: "ON_KEY_DOWN", delay: undefined, keyCodes: [13] },
+    ]);
+  });
+
+  it("simplifies non-navigation actions and conditional branches", () => {
+    const [interaction] = buildSimplifiedInteractions(
+      button([
+        {
+          trigger: { type: "ON_CLICK" },
+          actions: [
+            { type: "BACK" },
+            null,
+            { type: "URL", url: "https://example.com" },
+            { type: "SET_VARIABLE", variableId: "v1", variableValue: { resolvedType: "BOOLEAN" } },
+            {
+              type: "CONDITIONAL",
+              conditionalBlocks: [
+                { condition: {}, actions: [navigate("2:1")] },
+                { actions: [{ type: "CLOSE" }] },
+              ],
+            },
+          ],
+        },
+      ]),
+      { "2:1": "Menu" },
+    )!;
+
+    expect(interaction.actions).toEqual([
+      { type: "BACK" },
+      { type: "URL", url: "https://example.com" },
+      { type: "SET_VARIABLE", variableId: "v1" },
+      {
+        type: "CONDITIONAL",
+        branches: [
+          [expect.objectContaining({ type: "NAVIGATE", destinationName: "Menu" })],
+          [{ type: "CLOSE" }],
+        ],
+      },
+    ]);
+  });
+
+  it("converts easings to CSS timing functions or spring parameters", () => {
+    const easings = [
+      {
+        type: "CUSTOM_CUBIC_BEZIER",
+        easingFunctionCubicBezier: { x1: 0.1, y1: 0, x2: 0.2, y2: 1 },
+      },
+      { type: "GENTLE" },
+      { type: "CUSTOM_SPRING", easingFunctionSpring: { mass: 2, stiffness: 200, damping: 10 } },
+      { type: "EASE_IN_BACK" },
+    ];
+    const [interaction] = buildSimplifiedInteractions(
+      button([
+        {
+          trigger: { type: "ON_CLICK" },
+          actions: easings.map((easing) =>
+            navigate("2:1", { transition: { type: "DISSOLVE", duration: 200, easing } }),
+          ),
+        },
+      ]),
+    )!;
+
+    expect(interaction.actions.map(({ transition }) => transition)).toEqual([
+      expect.objectContaining({ easing: "cubic-bezier(0.1, 0, 0.2, 1)" }),
+      expect.objectContaining({ spring: { mass: 1, stiffness: 100, damping: 15 } }),
+      expect.objectContaining({ spring: { mass: 2, stiffness: 200, damping: 10 } }),
+      expect.objectContaining({ easing: "cubic-bezier(0.3, -0.05, 0.7, -0.5)" }),
+    ]);
+  });
+
+  it("drops interactions without a trigger or actions", () => {
+    const node = button([
+      { trigger: null, actions: [navigate("2:1")] },
+      { trigger: { type: "ON_HOVER" }, actions: [] },
+    ]);
+
+    expect(buildSimplifiedInteractions(node)).toBeUndefined();
+    expect(buildSimplifiedInteractions(figmaNode("FRAME"))).toBeUndefined();
+  });
+});
+
+describe("interactionsExtractor", () => {
+  it("resolves destination names from the walked nodes", () => {
+    const node = button([{ trigger: { type: "ON_CLICK" }, actions: [navigate("2:1")] }]);
+    const globalVars: TraversalContext["globalVars"] = {
+      styles: {},
+      nodeNames: { "2:1": "Checkout" },
+    };
+    const { nodes } = extractFromDesign([node], [interactionsExtractor], {}, globalVars);
+
+    expect(nodes[0].interactions?.[0].actions[0].destinationName).toBe("Checkout");
+  });
+});
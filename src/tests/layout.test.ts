@@ -0,0 +1,332 @@
+import type { Rectangle } from "@figma/rest-api-spec";
+import { extractFromDesign, layoutExtractor } from "~/extractors/index.js";
+import type { TraversalContext } from "~/extractors/index.js";
+import { buildSimplifiedLayout, buildSimplifiedLayoutGrids } from "~/transformers/layout.js";
+import { container, figmaNode } from "./fixtures.js";
+
+const frame = (bounds: Rectangle, props: object = {}) =>
+  container("FRAME", [], { name: "Frame", absoluteBoundingBox: bounds, ...props });
+
+const child = (bounds: Rectangle, props: object = {}) =>
+  figmaNode("RECTANGLE", { id: "1:2", name: "Child", absoluteBoundingBox: bounds, ...props });
+
+describe("grid layout", () => {
+  const container = frame(
+    { x: 0, y: 0, width: 300, height: 200 },
+    {
+      layoutMode: "GRID",
+      gridColumnCount: 3,
+      gridRowCount: 2,
+      gridRowsSizing: "100px auto",
+      gridRowGap: 8,
+      gridColumnGap: 16,
+      paddingTop: 4,
+      paddingBottom: 4,
+    },
+  );
+
+  it("describes the container's tracks and gaps", () => {
+    expect(buildSimplifiedLayout(container)).toEqual(
+      expect.objectContaining({
+        mode: "grid",
+        grid: {
+          columnCount: 3,
+          rowCount: 2,
+          templateColumns: "repeat(3, minmax(0, 1fr))",
+          templateRows: "100px auto",
+        },
+        // Row gap first, as in the CSS gap shorthand
+        gap: "8px 16px",
+        padding: "4px 0px",
+      }),
+    );
+  });
+
+  it("places children with 1-based lines and spans", () => {
+    const item = child(
+      { x: 100, y: 0, width: 200, height: 100 },
+      {
+        gridColumnAnchorIndex: 1,
+        gridColumnSpan: 2,
+        gridRowAnchorIndex: 0,
+        gridRowSpan: 1,
+        gridChildHorizontalAlign: "CENTER",
+        gridChildVerticalAlign: "AUTO",
+      },
+    );
+
+    expect(buildSimplifiedLayout(item, container).gridItem).toEqual({
+      column: "2 / span 2",
+      row: "1",
+      justifySelf: "center",
+      alignSelf: undefined,
+    });
+  });
+
+  it("leaves absolutely positioned children out of the grid", () => {
+    const item = child(
+      { x: 10, y: 20, width: 50, height: 50 },
+      { layoutPositioning: "ABSOLUTE", gridColumnAnchorIndex: 0 },
+    );
+    const layout = buildSimplifiedLayout(item, container);
+
+    expect(layout.gridItem).toBeUndefined();
+    expect(layout.position).toBe("absolute");
+    expect(layout.locationRelativeToParent).toEqual({ x: 10, y: 20 });
+  });
+});
+
+describe("layout grids", () => {
+  const grid = (extra: object) => ({
+    visible: true,
+    pattern: "COLUMNS",
+    sectionSize: 10,
+    gutterSize: 20,
+    alignment: "STRETCH",
+    count: 4,
+    offset: 0,
+    color: { r: 1, g: 0, b: 0, a: 0.1 },
+    ...extra,
+  });
+
+  it("derives stretch columns from the frame width", () => {
+    const node = frame(
+      { x: 0, y: 0, width: 1000, height: 500 },
+      { layoutGrids: [grid({ offset: 50 })] },
+    );
+
+    // (1000 - 2 * 50 - 3 * 20) / 4
+    expect(buildSimplifiedLayoutGrids(node)).toEqual([
+      {
+        pattern: "columns",
+        count: 4,
+        sectionSize: 210,
+        gutter: "20px",
+        alignment: "stretch",
+        offset: "50px",
+        containerSize: 900,
+      },
+    ]);
+  });
+
+  it("keeps fixed row sizes and skips hidden grids", () => {
+    const node = frame(
+      { x: 0, y: 0, width: 1000, height: 500 },
+      {
+        layoutGrids: [
+          grid({ pattern: "ROWS", alignment: "MIN", sectionSize: 40, count: 3, offset: 10 }),
+          grid({ visible: false }),
+          grid({ pattern: "GRID", sectionSize: 8 }),
+        ],
+      },
+    );
+
+    expect(buildSimplifiedLayoutGrids(node)).toEqual([
+      expect.objectContaining({
+        pattern: "rows",
+        sectionSize: 40,
+        alignment: "start",
+        offset: "10px",
+        containerSize: 160,
+      }),
+      { pattern: "grid", sectionSize: 8 },
+    ]);
+  });
+
+  it("resolves variables bound to grid fields", () => {
+    const alias = (id: string) => ({ type: "VARIABLE_ALIAS", id });
+    const node = frame(
+      { x: 0, y: 0, width: 1000, height: 500 },
+      {
+        layoutGrids: [
+          grid({ boundVariables: { gutterSize: alias("v1"), numSections: alias("v2") } }),
+        ],
+      },
+    );
+
+    const [result] = buildSimplifiedLayoutGrids(node, (id) => `var-${id}`);
+    expect(result.boundVariables).toEqual({
+      count: "var-v2",
+      sectionSize: undefined,
+      gutter: "var-v1",
+      offset: undefined,
+    });
+  });
+
+  it("shares one global var between frames with the same grids", () => {
+    const box = { x: 0, y: 0, width: 1000, height: 500 };
+    const { nodes, globalVars } = extractFromDesign(
+      [frame(box, { layoutGrids: [grid({})] }), frame(box, { layoutGrids: [grid({})] })],
+      [layoutExtractor],
+    );
+
+    expect(nodes[0].layoutGrids).toMatch(/^grid_/);
+    expect(nodes[1].layoutGrids).toBe(nodes[0].layoutGrids);
+    expect(globalVars.styles[nodes[0].layoutGrids!]).toHaveLength(1);
+  });
+
+  it("labels grids with their style name without sharing frame-sized values", () => {
+    const styled = { styles: { grid: "S:1" } };
+    const { nodes, globalVars } = extractFromDesign(
+      [
+        frame({ x: 0, y: 0, width: 1000, height: 500 }, { layoutGrids: [grid({})], ...styled }),
+        frame({ x: 0, y: 0, width: 600, height: 500 }, { layoutGrids: [grid({})], ...styled }),
+      ],
+      [layoutExtractor],
+      {},
+      {
+        styles: {},
+        extraStyles: {
+          "S:1": { key: "k", name: "Columns/4", styleType: "GRID", remote: false, description: "" },
+        },
+      } as TraversalContext["globalVars"],
+    );
+
+    expect(nodes.map(({ layoutGridStyle }) => layoutGridStyle)).toEqual(["Columns/4", "Columns/4"]);
+    expect(nodes[1].layoutGrids).not.toBe(nodes[0].layoutGrids);
+    expect(globalVars.styles["Columns/4"]).toBeUndefined();
+    // (600 - 3 * 20) / 4
+    expect(globalVars.styles[nodes[1].layoutGrids!]).toEqual([
+      expect.objectContaining({ sectionSize: 135, containerSize: 600 }),
+    ]);
+  });
+
+  it("ignores nodes that can't have layout grids", () => {
+    expect(buildSimplifiedLayoutGrids(child({ x: 0, y: 0, width: 1, height: 1 }))).toEqual([]);
+  });
+});
+
+describe("constraints", () => {
+  const parent = frame({ x: 100, y: 100, width: 400, height: 300 });
+  const constrained = (horizontal: string, vertical: string, extra: object = {}) =>
+    child(
+      { x: 120, y: 130, width: 100, height: 50 },
+      { constraints: { horizontal, vertical }, ...extra },
+    );
+
+  it("omits constraints for nodes pinned to the top left", () => {
+    const layout = buildSimplifiedLayout(constrained("LEFT", "TOP"), parent);
+
+    expect(layout.constraints).toBeUndefined();
+    expect(layout.dimensions).toEqual({ width: 100, height: 50 });
+  });
+
+  it("pins edges as px insets", () => {
+    const layout = buildSimplifiedLayout(constrained("RIGHT", "BOTTOM"), parent);
+
+    expect(layout.constraints).toEqual({ right: "280px", bottom: "220px" });
+    expect(layout.dimensions).toEqual({ width: 100, height: 50 });
+  });
+
+  it("replaces the size with both insets for stretching constraints", () => {
+    const layout = buildSimplifiedLayout(constrained("LEFT_RIGHT", "TOP_BOTTOM"), parent);
+
+    expect(layout.constraints).toEqual({
+      left: "20px",
+      right: "280px",
+      top: "30px",
+      bottom: "220px",
+    });
+    expect(layout.dimensions).toBeUndefined();
+  });
+
+  it("offsets centered nodes from 50% and scales as percentages", () => {
+    const layout = buildSimplifiedLayout(constrained("CENTER", "SCALE"), parent);
+
+    expect(layout.constraints).toEqual({ left: "calc(50% - 180px)", top: "10%", height: "16.67%" });
+    expect(layout.dimensions).toEqual({ width: 100 });
+  });
+
+  it("adds min and max sizes", () => {
+    const layout = buildSimplifiedLayout(
+      constrained("LEFT", "TOP", { minWidth: 80, maxWidth: 200, maxHeight: null }),
+      parent,
+    );
+
+    expect(layout.dimensions).toEqual({
+      width: 100,
+      height: 50,
+      minWidth: 80,
+      maxWidth: 200,
+      minHeight: undefined,
+      maxHeight: undefined,
+    });
+  });
+
+  it("leaves auto layout children in flow unconstrained", () => {
+    const row = frame({ x: 100, y: 100, width: 400, height: 300 }, { layoutMode: "HORIZONTAL" });
+    const layout = buildSimplifiedLayout(constrained("RIGHT", "BOTTOM"), row);
+
+    expect(layout.constraints).toBeUndefined();
+  });
+});
+
+describe("rotation", () => {
+  const parent = frame({ x: 0, y: 0, width: 400, height: 400 });
+
+  it("recovers the unrotated box from the node size", () => {
+    // A 100x50 rectangle turned a quarter counter-clockwise has a 50x100 bounding box
+    const node = child(
+      { x: 100, y: 100, width: 50, height: 100 },
+      { rotation: Math.PI / 2, size: { x: 100, y: 50 } },
+    );
+    const layout = buildSimplifiedLayout(node, parent);
+
+    expect(layout.transform).toBe("rotate(-90deg)");
+    expect(layout.dimensions).toEqual({ width: 100, height: 50 });
+    // Centered on the bounding box, so rotating around the center lands on it
+    expect(layout.locationRelativeToParent).toEqual({ x: 75, y: 125 });
+  });
+
+  it("solves the size from the bounding box when Figma doesn't send it", () => {
+    const node = child({ x: 100, y: 100, width: 50, height: 100 }, { rotation: Math.PI / 2 });
+
+    expect(buildSimplifiedLayout(node, parent).dimensions).toEqual({ width: 100, height: 50 });
+  });
+
+  it("assumes a square near 45 degrees", () => {
+    const diagonal = 100 * Math.SQRT2;
+    const node = child(
+      { x: 0, y: 0, width: diagonal, height: diagonal },
+      { rotation: Math.PI / 4 },
+    );
+    const layout = buildSimplifiedLayout(node, parent);
+
+    expect(layout.transform).toBe("rotate(-45deg)");
+    expect(layout.dimensions).toEqual({ width: 100, height: 100 });
+  });
+
+  it("uses the bounding box diagonal as the length of a line", () => {
+    const node = child(
+      { x: 0, y: 0, width: 30, height: 40 },
+      { type: "LINE", rotation: -Math.atan2(40, 30) },
+    );
+
+    expect(buildSimplifiedLayout(node, parent).dimensions).toEqual({ width: 50, height: 0 });
+  });
+
+  it("reads flips from the relative transform", () => {
+    const node = child(
+      { x: 0, y: 0, width: 100, height: 50 },
+      {
+        size: { x: 100, y: 50 },
+        relativeTransform: [
+          [-1, 0, 100],
+          [0, 1, 0],
+        ],
+      },
+    );
+    const layout = buildSimplifiedLayout(node, parent);
+
+    expect(layout.transform).toBe("scaleX(-1)");
+    expect(layout.dimensions).toEqual({ width: 100, height: 50 });
+  });
+
+  it("leaves unrotated nodes untouched", () => {
+    const node = child({ x: 10, y: 10, width: 100, height: 50 }, { rotation: 0 });
+    const layout = buildSimplifiedLayout(node, parent);
+
+    expect(layout.transform).toBeUndefined();
+    expect(layout.locationRelativeToParent).toEqual({ x: 10, y: 10 });
+  });
+});
@@ -0,0 +1,188 @@
+import type { Node as FigmaDocumentNode, RGBA } from "@figma/rest-api-spec";
+import { allExtractors, collapseSvgContainers, extractFromDesign } from "~/extractors/index.js";
+import type { TraversalOptions } from "~/extractors/index.js";
+import { container, figmaNode, solid } from "./fixtures.js";
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+const GREEN = { r: 0, g: 1, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 1, a: 1 };
+
+const rectangle = (id: string, fill: RGBA, stroke: RGBA) =>
+  figmaNode("RECTANGLE", {
+    id,
+    name: "Background",
+    fills: [solid(fill)],
+    strokes: [solid(stroke)],
+    strokeWeight: 1,
+  });
+
+const vector = (id: string) => figmaNode("VECTOR", { id, name: "Shape", fills: [solid(BLUE)] });
+
+const component = container("COMPONENT", [rectangle("1:2", RED, BLUE)], { id: "1:1" });
+
+const overriddenInstance = container("INSTANCE", [rectangle("I2:1;1:2", GREEN, RED)], {
+  id: "2:1",
+  componentId: "1:1",
+  overrides: [{ id: "I2:1;1:2", overriddenFields: ["fills"] }],
+});
+
+function walk(nodes: FigmaDocumentNode[], options: TraversalOptions = {}) {
+  return extractFromDesign(nodes, allExtractors, { instanceOverridesOnly: true, ...options });
+}
+
+describe("instanceOverridesOnly", () => {
+  it("emits only the overridden values of an instance's descendants", () => {
+    const { nodes, globalVars } = walk([component, overriddenInstance]);
+    const instance = nodes[1];
+
+    expect(instance.children).toBeUndefined();
+    expect(instance.overrides).toEqual([
+      {
+        id: "I2:1;1:2",
+        name: "Background",
+        overriddenFields: ["fills"],
+        fills: expect.any(String),
+      },
+    ]);
+    expect(globalVars.styles[instance.overrides![0].fills!]).toEqual(["#00FF00"]);
+  });
+
+  it("doesn't register styles for values that weren't overridden", () => {
+    const { nodes, globalVars } = walk([component, overriddenInstance]);
+
+    const referenced = new Set(
+      JSON.stringify(nodes).match(/"(fill|stroke|layout|style|effect)_[A-Z0-9]{6}"/g),
+    );
+    expect(Object.keys(globalVars.styles).map((key) => `"${key}"`)).toEqual(
+      expect.arrayContaining([...referenced]),
+    );
+    expect(Object.keys(globalVars.styles)).toHaveLength(referenced.size);
+    // The instance's unoverridden red stroke is never emitted
+    expect(Object.values(globalVars.styles)).not.toContainEqual(
+      expect.objectContaining({ colors: ["#FF0000"] }),
+    );
+  });
+
+  it("reuses existing style entries for overridden values", () => {
+    const sameFill = container("INSTANCE", [rectangle("I3:1;1:2", RED, BLUE)], {
+      id: "3:1",
+      componentId: "1:1",
+      overrides: [{ id: "I3:1;1:2", overriddenFields: ["fills"] }],
+    });
+    const { nodes } = walk([component, sameFill]);
+
+    expect(nodes[1].overrides![0].fills).toBe(nodes[0].children![0].fills);
+  });
+
+  it("keeps the full subtree when the main component isn't emitted", () => {
+    const page = container("FRAME", [container("FRAME", [component], { id: "0:2" })], {
+      id: "0:1",
+    });
+    const cases = [
+      // A library component, or one outside the requested nodes
+      walk([overriddenInstance]),
+      walk([component, overriddenInstance], { nodeFilter: (node) => node.type !== "COMPONENT" }),
+      walk([page, overriddenInstance], { maxDepth: 1 }),
+    ];
+
+    for (const { nodes } of cases) {
+      const instance = nodes.find((node) => node.id === "2:1")!;
+      expect(instance.overrides).toBeUndefined();
+      expect(instance.children).toHaveLength(1);
+    }
+  });
+
+  it("runs afterChildren so icon instances still collapse", () => {
+    const icon = container("COMPONENT", [vector("4:2")], { id: "4:1" });
+    const iconInstance = container("INSTANCE", [vector("I5:1;4:2")], {
+      id: "5:1",
+      componentId: "4:1",
+    });
+
+    const { nodes, globalVars } = extractFromDesign([icon, iconInstance], allExtractors, {
+      instanceOverridesOnly: true,
+      afterChildren: collapseSvgContainers,
+    });
+
+    expect(nodes[1].type).toBe("IMAGE-SVG");
+    expect(nodes[1].children).toBeUndefined();
+    // Only the component's vector fill is registered, not a copy from the collapsed instance
+    expect(Object.keys(globalVars.styles)).toHaveLength(
+      new Set(JSON.stringify(nodes).match(/"fill_[A-Z0-9]{6}"/g)).size,
+    );
+  });
+});
+
+describe("masks and boolean operations", () => {
+  const layer = (id: string, props: object = {}) => figmaNode("RECTANGLE", { id, ...props });
+
+  it("links the siblings above a mask to it, up to the next mask", () => {
+    const group = container("GROUP", [
+      layer("below"),
+      layer("mask-a", { isMask: true, maskType: "ALPHA" }),
+      layer("a1"),
+      layer("a2"),
+      layer("mask-b", { isMask: true, isMaskOutline: true }),
+      layer("b1"),
+    ]);
+    const { nodes } = extractFromDesign([group], allExtractors);
+
+    expect(nodes[0].children!.map(({ id, mask, maskedBy }) => ({ id, mask, maskedBy }))).toEqual([
+      { id: "below", mask: undefined, maskedBy: undefined },
+      { id: "mask-a", mask: { type: "alpha" }, maskedBy: undefined },
+      { id: "a1", mask: undefined, maskedBy: "mask-a" },
+      { id: "a2", mask: undefined, maskedBy: "mask-a" },
+      { id: "mask-b", mask: { type: "vector" }, maskedBy: undefined },
+      { id: "b1", mask: undefined, maskedBy: "mask-b" },
+    ]);
+  });
+
+  it("ends a mask's run at a hidden mask above it", () => {
+    const group = container("GROUP", [
+      layer("mask-a", { isMask: true }),
+      layer("a1"),
+      layer("mask-b", { isMask: true, visible: false }),
+      layer("b1"),
+    ]);
+    const { nodes } = extractFromDesign([group], allExtractors);
+
+    expect(nodes[0].children!.map(({ id, maskedBy }) => ({ id, maskedBy }))).toEqual([
+      { id: "mask-a", maskedBy: undefined },
+      { id: "a1", maskedBy: "mask-a" },
+      // The hidden mask clips nothing, so b1 isn't masked at all
+      { id: "b1", maskedBy: undefined },
+    ]);
+  });
+
+  it("only uses plus-* blend modes where CSS allows them", () => {
+    const node = layer("1:1", {
+      blendMode: "LINEAR_BURN",
+      fills: [solid({ r: 1, g: 0, b: 0, a: 1 }, { blendMode: "LINEAR_DODGE" })],
+    });
+    const { nodes, globalVars } = extractFromDesign([node], allExtractors);
+
+    expect(nodes[0].blendMode).toBe("plus-darker");
+    // background-blend-mode has no plus-* values
+    expect(globalVars.styles[nodes[0].fills!]).toEqual([
+      { type: "SOLID", color: "#FF0000", blendMode: "color-dodge" },
+    ]);
+  });
+
+  it("exports boolean operations as a single vector", () => {
+    const union = container("BOOLEAN_OPERATION", [vector("1:2"), vector("1:3")], {
+      id: "1:1",
+      booleanOperation: "SUBTRACT",
+      blendMode: "MULTIPLY",
+    });
+    const { nodes } = extractFromDesign([union], allExtractors);
+
+    expect(nodes[0]).toEqual(
+      expect.objectContaining({
+        type: "IMAGE-SVG",
+        booleanOperation: "subtract",
+        blendMode: "multiply",
+      }),
+    );
+    expect(nodes[0].children).toBeUndefined();
+  });
+});
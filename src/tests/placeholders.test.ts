@@ -0,0 +1,76 @@
+import sharp from "sharp";
+import { encodeBlurhash, generateImagePlaceholder } from "~/utils/placeholders.js";
+
+type Color = [number, number, number, number];
+
+const RED: Color = [255, 0, 0, 255];
+const BLUE: Color = [0, 0, 255, 255];
+const YELLOW: Color = [255, 255, 0, 255];
+
+function pixels(width: number, height: number, colorAt: (x: number, y: number) => Color) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(colorAt(x, y), (y * width + x) * 4);
+  }
+  return data;
+}
+
+// Red top half, blue bottom left and yellow bottom right quarters
+const banner = (width: number, height: number) =>
+  pixels(width, height, (x, y) => (y < height / 2 ? RED : x < width / 2 ? BLUE : YELLOW));
+
+const BASE83_DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+const decodeBase83 = (digits: string) =>
+  [...digits].reduce((value, digit) => value * 83 + BASE83_DIGITS.indexOf(digit), 0);
+
+describe("encodeBlurhash", () => {
+  function solid(color: Color) {
+    const data = pixels(4, 4, () => color);
+    return encodeBlurhash(data, 4, 4, 4, 3);
+  }
+
+  // Expected hashes match the reference encoder at https://github.com/woltapp/blurhash
+  it("encodes solid colors like the reference encoder", () => {
+    expect(solid([255, 255, 255, 255])).toBe("L~TSUA~qfQ~q~q%MfQ%MfQfQfQfQ");
+    expect(solid([128, 128, 128, 255])).toBe("LHEyb[~qfQ~q~qxufQxufQfQfQfQ");
+  });
+
+  it("round-trips the average color exactly", () => {
+    const average = decodeBase83(solid([128, 64, 200, 255]).slice(2, 6));
+
+    expect([average >> 16, (average >> 8) & 255, average & 255]).toEqual([128, 64, 200]);
+  });
+
+  it("encodes detail like the reference encoder", () => {
+    const quadrants = pixels(8, 6, (x, y) =>
+      y < 3 ? (x < 4 ? RED : [0, 255, 0, 255]) : x < 4 ? BLUE : YELLOW,
+    );
+
+    expect(encodeBlurhash(quadrants, 8, 6, 4, 3)).toBe("L~Lqdfz8e0yO%B[B#SOqfL,TwuSN");
+  });
+});
+
+describe("generateImagePlaceholder", () => {
+  it("computes the blurhash, dominant color and preview of an image", async () => {
+    const image = await sharp(banner(64, 32), { raw: { width: 64, height: 32, channels: 4 } })
+      .png()
+      .toBuffer();
+    const placeholder = await generateImagePlaceholder(image);
+
+    expect(placeholder.blurhash).toBe("L,Pz1T9BWG-g_%-xobRWv~t1j?WE");
+    // sharp reports the center of the most common color bin
+    expect(placeholder.dominantColor).toBe("#F80808");
+
+    const [, base64] = placeholder.preview.split("data:image/png;base64,");
+    const { data, info } = await sharp(Buffer.from(base64, "base64"))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const pixelAt = (x: number, y: number) => [
+      ...data.subarray((y * 16 + x) * 4, (y * 16 + x + 1) * 4),
+    ];
+    expect([info.width, info.height]).toEqual([16, 8]);
+    expect([pixelAt(0, 0), pixelAt(0, 7), pixelAt(15, 7)]).toEqual([RED, BLUE, YELLOW]);
+  });
+});
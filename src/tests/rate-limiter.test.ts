@@ -0,0 +1,131 @@
+import { fetchWithRetry } from "~/utils/fetch-with-retry.js";
+import { Logger } from "~/utils/logger.js";
+import { getRateLimiter, RateLimiter } from "~/utils/rate-limiter.js";
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(Logger, "log").mockImplementation(() => {});
+  jest.spyOn(Logger, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  globalThis.fetch = originalFetch;
+});
+
+describe("RateLimiter", () => {
+  it("releases queued requests in order as the bucket refills", async () => {
+    const limiter = new RateLimiter("test", 2, 1);
+    const released: string[] = [];
+    const requests = ["a", "b", "c", "d"].map((label) =>
+      limiter.acquire(label).then(() => released.push(label)),
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(released).toEqual(["a", "b"]);
+    expect(limiter.queueDepth).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(released).toEqual(["a", "b", "c"]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+    expect(released).toEqual(["a", "b", "c", "d"]);
+    expect(Logger.log).toHaveBeenCalledWith(
+      "[rateLimiter:test] Released d after waiting 2000ms (queue depth: 0)",
+    );
+  });
+
+  it("holds every request until a pause elapses", async () => {
+    const limiter = new RateLimiter("test", 5, 1);
+    limiter.pause(3000);
+    let released = false;
+    const request = limiter.acquire("a").then(() => (released = true));
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(released).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await request;
+    expect(released).toBe(true);
+  });
+});
+
+describe("getRateLimiter", () => {
+  it("shares one limiter per token", () => {
+    expect(getRateLimiter("token-a")).toBe(getRateLimiter("token-a"));
+    expect(getRateLimiter("token-a")).not.toBe(getRateLimiter("token-b"));
+  });
+
+  it("drops limiters that have been idle with a full bucket", async () => {
+    const idle = getRateLimiter("idle");
+    const busy = getRateLimiter("busy");
+    busy.pause(60 * 60 * 1000);
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+    getRateLimiter("other");
+
+    expect(getRateLimiter("idle")).not.toBe(idle);
+    expect(getRateLimiter("busy")).toBe(busy);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  const url = "https://api.figma.com/v1/files/abc";
+
+  // Responds with each response in turn, repeating the last one
+  function mockFetch(...responses: (() => Response)[]) {
+    const fetch = jest.fn(async () => (responses.length > 1 ? responses.shift()! : responses[0])());
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    return fetch;
+  }
+
+  const ok = () => Response.json({ name: "File" });
+
+  it("waits out a short Retry-After before retrying", async () => {
+    const fetch = mockFetch(
+      () => new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+      ok,
+    );
+    const result = fetchWithRetry(url, { headers: { "X-Figma-Token": "retry-after" } });
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ name: "File" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports long Retry-After waits without retrying", async () => {
+    const fetch = mockFetch(
+      () => new Response(null, { status: 429, headers: { "Retry-After": "120" } }),
+    );
+
+    await expect(
+      fetchWithRetry(url, { headers: { "X-Figma-Token": "long-retry-after" } }),
+    ).rejects.toThrow("Figma API rate limit reached. Try again in 2 minutes.");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("backs off exponentially on server errors", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    const unavailable = () => new Response(null, { status: 503 });
+    const fetch = mockFetch(unavailable, unavailable, ok);
+    const result = fetchWithRetry(url, { headers: { "X-Figma-Token": "backoff" } });
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ name: "File" });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
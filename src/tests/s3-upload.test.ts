@@ -0,0 +1,92 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  S3Client,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { Logger } from "~/utils/logger.js";
+import { uploadToS3 } from "~/utils/s3-upload.js";
+
+const config = {
+  region: "us-east-1",
+  bucketName: "bucket",
+  accessKeyId: "key",
+  secretAccessKey: "secret",
+};
+
+// Six 8 MB parts, over the multipart threshold
+const data = Buffer.alloc(48 * 1024 * 1024);
+
+// Answers multipart commands, failing part uploads as `uploadPart` decides
+function mockS3(uploadPart: (partNumber: number) => void) {
+  return jest.spyOn(S3Client.prototype, "send").mockImplementation(async (command: unknown) => {
+    if (command instanceof CreateMultipartUploadCommand) return { UploadId: "upload" };
+    if (command instanceof UploadPartCommand) {
+      const partNumber = command.input.PartNumber!;
+      uploadPart(partNumber);
+      return { ETag: `etag-${partNumber}` };
+    }
+    if (command instanceof CompleteMultipartUploadCommand) return {};
+    if (command instanceof AbortMultipartUploadCommand) return {};
+    // HeadObject: not uploaded yet
+    throw new Error("NotFound");
+  });
+}
+
+const sent = (send: jest.SpyInstance, type: new (...args: never[]) => unknown) =>
+  send.mock.calls.map(([command]) => command).filter((command) => command instanceof type);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(Math, "random").mockReturnValue(0);
+  jest.spyOn(Logger, "log").mockImplementation(() => {});
+  jest.spyOn(Logger, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("uploadToS3 multipart uploads", () => {
+  it("retries a failed part on its own", async () => {
+    let failures = 0;
+    const send = mockS3((partNumber) => {
+      if (partNumber === 2 && failures++ < 2) throw new Error("ECONNRESET");
+    });
+    const result = uploadToS3(data, "large.png", config);
+
+    await jest.runAllTimersAsync();
+    await expect(result).resolves.toEqual(expect.objectContaining({ key: expect.any(String) }));
+
+    expect(sent(send, UploadPartCommand)).toHaveLength(8);
+    const [complete] = sent(
+      send,
+      CompleteMultipartUploadCommand,
+    ) as CompleteMultipartUploadCommand[];
+    expect(complete.input.MultipartUpload?.Parts?.map(({ PartNumber }) => PartNumber)).toEqual([
+      1, 2, 3, 4, 5, 6,
+    ]);
+  });
+
+  it("stops sending queued parts once a part fails for good", async () => {
+    const send = mockS3(() => {
+      throw new Error("AccessDenied");
+    });
+    const result = uploadToS3(data, "large.png", config);
+    const rejection = expect(result).rejects.toThrow("AccessDenied");
+
+    await jest.runAllTimersAsync();
+    await rejection;
+
+    // Part 1 runs out of retries first; the other parts stop retrying and 5 and 6 are never sent
+    const parts = (sent(send, UploadPartCommand) as UploadPartCommand[]).map(
+      ({ input }) => input.PartNumber,
+    );
+    expect(parts.filter((partNumber) => partNumber === 1)).toHaveLength(4);
+    expect(new Set(parts)).toEqual(new Set([1, 2, 3, 4]));
+    expect(sent(send, AbortMultipartUploadCommand)).toHaveLength(1);
+    expect(sent(send, CompleteMultipartUploadCommand)).toHaveLength(0);
+  });
+});
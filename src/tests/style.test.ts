@@ -0,0 +1,50 @@
+import type { ImagePaint } from "@figma/rest-api-spec";
+import { parsePaint, type SimplifiedImageFill } from "~/transformers/style.js";
+
+function imageFill(paint: Partial<ImagePaint>): SimplifiedImageFill {
+  return parsePaint({
+    type: "IMAGE",
+    imageRef: "abc",
+    scaleMode: "FILL",
+    blendMode: "NORMAL",
+    ...paint,
+  } as ImagePaint) as SimplifiedImageFill;
+}
+
+const suffix = (paint: Partial<ImagePaint>) =>
+  imageFill(paint).imageDownloadArguments?.filenameSuffix;
+
+describe("image fill processing", () => {
+  it("skips processing for unmodified images", () => {
+    expect(suffix({})).toBeUndefined();
+    expect(suffix({ filters: { exposure: 0 } })).toBeUndefined();
+  });
+
+  it("gives filters with the same value but different names different suffixes", () => {
+    const suffixes = [
+      suffix({ filters: { exposure: 0.5 } }),
+      suffix({ filters: { contrast: 0.5 } }),
+      suffix({ filters: { highlights: 0.5 } }),
+      suffix({ filters: { saturation: 0.5 } }),
+    ];
+
+    expect(new Set(suffixes).size).toBe(suffixes.length);
+  });
+
+  it("keeps suffixes stable for the same processing", () => {
+    expect(suffix({ rotation: 90, filters: { tint: 0.2 } })).toBe(
+      suffix({ rotation: 90, filters: { tint: 0.2 } }),
+    );
+    expect(suffix({ rotation: 90 })).not.toBe(suffix({ rotation: 180 }));
+  });
+
+  it("keeps the suffixes of crops and rotations without filters unchanged", () => {
+    const imageTransform = [
+      [0.5, 0, 0.25],
+      [0, 0.5, 0.5],
+    ] as ImagePaint["imageTransform"];
+
+    expect(suffix({ imageTransform })).toBe("7bfa99");
+    expect(suffix({ imageTransform, rotation: 90 })).toBe("3588ea");
+  });
+});
@@ -0,0 +1,128 @@
+import { optimizeSvg, sanitizeSvg } from "~/utils/svg-processing.js";
+
+const wrap = (content: string) => `<svg xmlns="http://www.w3.org/2000/svg">${content}</svg>`;
+
+describe("sanitizeSvg", () => {
+  it("removes unquoted and mixed-case event handlers", () => {
+    const { svg, log } = sanitizeSvg(
+      wrap(`<rect onclick=alert(1) width=10 ONLOAD = "alert(2)" height='4'/>`),
+    );
+
+    expect(svg).toBe(wrap(`<rect width="10" height="4"/>`));
+    expect(log).toContain("Removed 2 event handler attribute(s)");
+  });
+
+  it("removes SMIL animations that could set a javascript: href", () => {
+    const { svg, log } = sanitizeSvg(
+      wrap(
+        `<a><animate attributeName="href" values="javascript:alert(1)"/><rect/></a>` +
+          `<set attributeName="href" to="javascript:alert(2)"></set>` +
+          `<animateTransform attributeName="transform"/>`,
+      ),
+    );
+
+    expect(svg).toBe(wrap(""));
+    expect(svg).not.toMatch(/javascript/i);
+    expect(log).toEqual(
+      expect.arrayContaining([
+        "Removed 1 a element(s)",
+        "Removed 1 set element(s)",
+        "Removed 1 animatetransform element(s)",
+      ]),
+    );
+  });
+
+  it("removes an unclosed script and everything after it", () => {
+    const { svg, log } = sanitizeSvg(`<svg><rect/><script>alert(1)<rect/>`);
+
+    expect(svg).toBe(`<svg><rect/></svg>`);
+    expect(log).toEqual(["Removed 1 script element(s)"]);
+  });
+
+  it("removes unterminated script tags", () => {
+    const { svg, log } = sanitizeSvg(`<svg><script src=x.js`);
+
+    expect(svg).toBe(`<svg></svg>`);
+    expect(log).toEqual(["Removed 1 script element(s)"]);
+  });
+
+  it("removes nested disallowed content without leaking its closing tags", () => {
+    const { svg } = sanitizeSvg(
+      wrap(
+        `<foreignObject><foreignObject><img src=x onerror=alert(1)></foreignObject><rect/></foreignObject><circle r="1"/>`,
+      ),
+    );
+
+    expect(svg).toBe(wrap(`<circle r="1"/>`));
+  });
+
+  it("only counts removals that happened", () => {
+    const clean = wrap(`<path d="M0 0L1 1" fill="#000"/>`);
+
+    expect(sanitizeSvg(clean)).toEqual({ svg: clean, log: [] });
+  });
+
+  it("drops external and entity-encoded javascript references", () => {
+    const { svg, log } = sanitizeSvg(
+      wrap(
+        `<use href="#icon"/><use xlink:href="https://example.com/a.svg#x"/>` +
+          `<use href=" &#106;avascript:alert(1)"/>` +
+          `<image href="data:image/png;base64,AAAA"/><image href="data:text/html,x"/>` +
+          `<rect fill="url(https://example.com/track)" stroke="url(#paint0)"/>`,
+      ),
+    );
+
+    expect(svg).toBe(
+      wrap(
+        `<use href="#icon"/><use/><use/><image href="data:image/png;base64,AAAA"/>` +
+          `<rect fill="none" stroke="url(#paint0)"/>`,
+      ),
+    );
+    expect(log).toContain("Removed 4 external reference(s)");
+  });
+
+  it("drops style attributes that can escape CSS parsing", () => {
+    const { svg } = sanitizeSvg(
+      wrap(
+        `<rect style="fill:red"/><rect style="background:\\75rl(x)"/><rect style="@import 'x'"/>`,
+      ),
+    );
+
+    expect(svg).toBe(wrap(`<rect style="fill:red"/><rect/><rect/>`));
+  });
+
+  it("strips comments, doctypes and processing instructions", () => {
+    const { svg } = sanitizeSvg(
+      `<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY x "<script>">]><!-- <script> -->` +
+        wrap(`<metadata><x/></metadata><rect/>`),
+    );
+
+    expect(svg).toBe(wrap(`<rect/>`));
+  });
+
+  it("re-escapes decoded attribute values and keeps canonical SVG casing", () => {
+    const { svg } = sanitizeSvg(
+      `<SVG VIEWBOX="0 0 1 1"><LINEARGRADIENT id='a"b'/><text>1 < 2</text></SVG>`,
+    );
+
+    expect(svg).toBe(
+      `<svg viewBox="0 0 1 1"><linearGradient id="a&quot;b"/><text>1 &lt; 2</text></svg>`,
+    );
+  });
+});
+
+describe("optimizeSvg", () => {
+  it("sanitizes before minifying", () => {
+    const { svg, log } = optimizeSvg(
+      wrap(`<script>alert(1)</script>\n  <path onclick=alert(1) d="M0.12345 0L1 1"/>`),
+    );
+
+    expect(svg).toBe(wrap(`<path d="M0.123 0L1 1"/>`));
+    expect(log).toEqual(
+      expect.arrayContaining([
+        "Removed 1 script element(s)",
+        "Removed 1 event handler attribute(s)",
+      ]),
+    );
+  });
+});
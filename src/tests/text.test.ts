@@ -0,0 +1,184 @@
+import type { Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { extractFromDesign, textExtractor } from "~/extractors/index.js";
+import type { TraversalContext } from "~/extractors/index.js";
+import {
+  extractTextLines,
+  extractTextSegments,
+  extractTextSizing,
+  simplifyTypeStyle,
+} from "~/transformers/text.js";
+import { baseTextStyle, textNode } from "./fixtures.js";
+
+function extract(node: FigmaDocumentNode) {
+  const { nodes, globalVars } = extractFromDesign([node], [textExtractor]);
+  return { result: nodes[0], styles: globalVars.styles };
+}
+
+describe("extractTextSegments", () => {
+  it("returns nothing for uniformly styled text", () => {
+    expect(extractTextSegments(textNode("Plain"))).toBeUndefined();
+    // Override IDs missing from the table are ignored
+    const unknownOverride = textNode("Plain", { characterStyleOverrides: [7, 7] });
+    expect(extractTextSegments(unknownOverride)).toBeUndefined();
+  });
+
+  it("groups characters into runs and treats trailing characters as the base style", () => {
+    const bold = { fontWeight: 700 };
+    const segments = extractTextSegments(
+      textNode("Hello bold world", {
+        // Figma drops trailing zeros, so "world" has no entries
+        characterStyleOverrides: [0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 9],
+        styleOverrideTable: { 1: bold },
+      }),
+    );
+
+    expect(segments).toEqual([
+      { characters: "Hello ", override: undefined },
+      { characters: "bold", override: bold },
+      { characters: " world", override: undefined },
+    ]);
+  });
+});
+
+describe("textExtractor segments", () => {
+  it("references a style only for runs whose style differs from the base", () => {
+    const { result, styles } = extract(
+      textNode("Say hi now", {
+        characterStyleOverrides: [0, 0, 0, 0, 1, 1, 2, 2, 2, 2],
+        styleOverrideTable: {
+          1: { fontWeight: 700 },
+          // Same style as the base, only the color differs
+          2: { fills: [{ type: "SOLID", visible: true, color: { r: 1, g: 0, b: 0, a: 1 } }] },
+        },
+      }),
+    );
+
+    expect(result.textSegments).toEqual([
+      { text: "Say " },
+      { text: "hi", textStyle: expect.any(String) },
+      { text: " now", fills: expect.any(String) },
+    ]);
+    const [, bold, red] = result.textSegments!;
+    expect(styles[bold.textStyle!]).toEqual(expect.objectContaining({ fontWeight: 700 }));
+    expect(styles[red.fills!]).toEqual(["#FF0000"]);
+  });
+
+  it("keeps inline links on their segments", () => {
+    const { result } = extract(
+      textNode("Read the docs", {
+        characterStyleOverrides: [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1],
+        styleOverrideTable: { 1: { hyperlink: { type: "URL", url: "https://example.com" } } },
+      }),
+    );
+
+    expect(result.text).toBe("Read the docs");
+    expect(result.hyperlink).toBeUndefined();
+    expect(result.textSegments).toEqual([
+      { text: "Read the " },
+      { text: "docs", hyperlink: "https://example.com" },
+    ]);
+  });
+});
+
+describe("simplifyTypeStyle", () => {
+  it("converts decoration, paragraph spacing and OpenType features", () => {
+    const style = simplifyTypeStyle({
+      ...baseTextStyle,
+      fontPostScriptName: "Inter-Italic",
+      italic: true,
+      lineHeightPx: 24,
+      letterSpacing: -0.32,
+      textDecoration: "STRIKETHROUGH",
+      paragraphSpacing: 12,
+      paragraphIndent: 0,
+      listSpacing: 4,
+      opentypeFlags: { TNUM: 1, LIGA: 0 },
+    } as Parameters<typeof simplifyTypeStyle>[0]);
+
+    expect(style).toEqual({
+      fontFamily: "Inter",
+      fontPostScriptName: "Inter-Italic",
+      fontWeight: 400,
+      fontStyle: "italic",
+      fontSize: 16,
+      lineHeight: "1.5em",
+      letterSpacing: "-2%",
+      textDecoration: "line-through",
+      paragraphSpacing: "12px",
+      listSpacing: "4px",
+      fontFeatureSettings: '"tnum" 1, "liga" 0',
+    });
+  });
+});
+
+describe("text sizing", () => {
+  const sized = (extra: object) => textNode("Text", { style: { ...baseTextStyle, ...extra } });
+
+  it("clamps truncated text to its max lines", () => {
+    expect(extractTextSizing(sized({ textTruncation: "ENDING", maxLines: 2 }))).toEqual({
+      textOverflow: "ellipsis",
+      lineClamp: 2,
+    });
+    expect(extractTextSizing(sized({ textAutoResize: "TRUNCATE" }))).toEqual({
+      textOverflow: "ellipsis",
+    });
+    expect(extractTextSizing(sized({ textTruncation: "DISABLED", maxLines: 2 }))).toEqual({});
+  });
+
+  it("keeps sizing on the node, out of the shared text style entry", () => {
+    const styled = (extra: object) => ({ ...sized(extra), styles: { text: "S:1" } });
+    const { nodes, globalVars } = extractFromDesign(
+      [
+        styled({ textAutoResize: "HEIGHT", textTruncation: "ENDING", maxLines: 3 }),
+        styled({ textAutoResize: "WIDTH_AND_HEIGHT" }),
+      ],
+      [textExtractor],
+      {},
+      {
+        styles: {},
+        extraStyles: {
+          "S:1": { key: "k", name: "Body", styleType: "TEXT", remote: false, description: "" },
+        },
+      } as TraversalContext["globalVars"],
+    );
+
+    expect(nodes.map(({ textStyle }) => textStyle)).toEqual(["Body", "Body"]);
+    expect(nodes[0]).toEqual(
+      expect.objectContaining({ textAutoResize: "HEIGHT", textOverflow: "ellipsis", lineClamp: 3 }),
+    );
+    expect(nodes[1].textAutoResize).toBe("WIDTH_AND_HEIGHT");
+    expect(globalVars.styles.Body).toEqual({ fontFamily: "Inter", fontWeight: 400, fontSize: 16 });
+  });
+});
+
+describe("text lines and links", () => {
+  it("splits list items and indented lines", () => {
+    const lines = extractTextLines(
+      textNode("Intro\nFirst\nNested\u2029Second", {
+        lineTypes: ["NONE", "ORDERED", "UNORDERED", "ORDERED"],
+        lineIndentations: [0, 1, 2, 1],
+      }),
+    );
+
+    // Only lines with list or indent metadata are listed; the text is already on the node
+    expect(lines).toEqual([
+      { line: 1, list: "ordered", indent: 1 },
+      { line: 2, list: "unordered", indent: 2 },
+      { line: 3, list: "ordered", indent: 1 },
+    ]);
+  });
+
+  it("returns nothing for plain paragraphs", () => {
+    const plain = textNode("One\nTwo", { lineTypes: ["NONE", "NONE"], lineIndentations: [0, 0] });
+
+    expect(extractTextLines(plain)).toBeUndefined();
+  });
+
+  it("links whole nodes on the node and keeps frame links as node IDs", () => {
+    const { result } = extract(
+      textNode("Go", { style: { ...baseTextStyle, hyperlink: { type: "NODE", nodeID: "5:6" } } }),
+    );
+
+    expect(result.hyperlink).toBe("5:6");
+  });
+});
@@ -0,0 +1,169 @@
+import type { GetLocalVariablesResponse, RGBA } from "@figma/rest-api-spec";
+import { extractFromDesign, visualsExtractor } from "~/extractors/index.js";
+import type { TraversalContext } from "~/extractors/index.js";
+import { simplifyVariables } from "~/transformers/variables.js";
+import { figmaNode, solid } from "./fixtures.js";
+
+const alias = (id: string) => ({ type: "VARIABLE_ALIAS", id });
+
+function variable(id: string, name: string, collectionId: string, valuesByMode: object) {
+  return {
+    id,
+    name,
+    key: id,
+    variableCollectionId: collectionId,
+    resolvedType: "COLOR",
+    valuesByMode,
+    remote: false,
+    description: "",
+    hiddenFromPublishing: false,
+    scopes: [],
+    codeSyntax: {},
+  };
+}
+
+const local = {
+  variableCollections: {
+    primitives: {
+      id: "primitives",
+      name: "Primitives",
+      key: "primitives",
+      modes: [{ modeId: "p", name: "Value" }],
+      defaultModeId: "p",
+      remote: false,
+      hiddenFromPublishing: false,
+      variableIds: ["red", "blue"],
+    },
+    theme: {
+      id: "theme",
+      name: "Theme",
+      key: "theme",
+      modes: [
+        { modeId: "light", name: "Light" },
+        { modeId: "dark", name: "Dark" },
+      ],
+      defaultModeId: "light",
+      remote: false,
+      hiddenFromPublishing: false,
+      variableIds: ["accent", "link", "loop"],
+    },
+  },
+  variables: {
+    red: variable("red", "red/500", "primitives", { p: { r: 1, g: 0, b: 0, a: 1 } }),
+    blue: variable("blue", "blue/500", "primitives", { p: { r: 0, g: 0, b: 1, a: 0.5 } }),
+    accent: variable("accent", "color/accent", "theme", {
+      light: alias("red"),
+      dark: alias("blue"),
+    }),
+    link: variable("link", "color/link", "theme", {
+      light: alias("accent"),
+      dark: alias("accent"),
+    }),
+    loop: variable("loop", "color/loop", "theme", { light: alias("loop"), dark: alias("missing") }),
+  },
+} as unknown as GetLocalVariablesResponse["meta"];
+
+describe("simplifyVariables", () => {
+  const { variables } = simplifyVariables(local);
+
+  it("resolves aliases into other collections", () => {
+    expect(variables.accent.valuesByMode).toEqual({
+      Light: { alias: "red/500", aliasId: "red", resolvedValue: "#FF0000" },
+      Dark: { alias: "blue/500", aliasId: "blue", resolvedValue: "rgba(0, 0, 255, 0.5)" },
+    });
+  });
+
+  it("follows alias chains in the same collection using the same mode", () => {
+    expect(variables.link.valuesByMode).toEqual({
+      Light: { alias: "color/accent", aliasId: "accent", resolvedValue: "#FF0000" },
+      Dark: { alias: "color/accent", aliasId: "accent", resolvedValue: "rgba(0, 0, 255, 0.5)" },
+    });
+  });
+
+  it("leaves cyclic and dangling aliases unresolved", () => {
+    expect(variables.loop.valuesByMode).toEqual({
+      Light: { alias: "color/loop", aliasId: "loop", resolvedValue: undefined },
+      Dark: { alias: "missing", aliasId: "missing", resolvedValue: undefined },
+    });
+  });
+});
+
+describe("paint bindings", () => {
+  const paint = (color: RGBA, variableId?: string, visible = true) =>
+    solid(color, { visible, ...(variableId && { boundVariables: { color: alias(variableId) } }) });
+
+  function extract(node: object) {
+    const globalVars: TraversalContext["globalVars"] = {
+      styles: {},
+      variableMetadata: simplifyVariables(local),
+    };
+    const [result] = extractFromDesign(
+      [figmaNode("RECTANGLE", node)],
+      [visualsExtractor],
+      {},
+      globalVars,
+    ).nodes;
+    return { result, globalVars };
+  }
+
+  it("keeps one entry per fill, in the order of the simplified fills", () => {
+    const { result, globalVars } = extract({
+      fills: [
+        paint({ r: 1, g: 0, b: 0, a: 1 }, "red"),
+        paint({ r: 0, g: 1, b: 0, a: 1 }),
+        paint({ r: 1, g: 1, b: 1, a: 1 }, undefined, false),
+        paint({ r: 0, g: 0, b: 1, a: 1 }, "blue"),
+      ],
+    });
+
+    // Figma lists fills bottom to top
+    expect(globalVars.styles[result.fills!]).toEqual(["#0000FF", "#FFFFFF", "#00FF00", "#FF0000"]);
+    expect(result.boundVariables?.fills).toEqual(["blue/500", null, null, "red/500"]);
+    expect(Object.keys(globalVars.variables!)).toEqual(["blue/500", "red/500"]);
+  });
+
+  it("aligns node-level fill bindings with the simplified fills", () => {
+    const { result, globalVars } = extract({
+      fills: [
+        paint({ r: 1, g: 0, b: 0, a: 1 }),
+        paint({ r: 0, g: 1, b: 0, a: 1 }, undefined, false),
+      ],
+      boundVariables: { fills: [alias("red"), alias("accent")] },
+    });
+
+    expect(globalVars.styles[result.fills!]).toHaveLength(2);
+    expect(result.boundVariables?.fills).toEqual(["color/accent", "red/500"]);
+  });
+
+  it("keeps strokes in Figma's order and skips hidden ones", () => {
+    const { result } = extract({
+      strokes: [
+        paint({ r: 0, g: 1, b: 0, a: 1 }),
+        paint({ r: 0, g: 0, b: 1, a: 1 }, "blue", false),
+        paint({ r: 1, g: 0, b: 0, a: 1 }, "accent"),
+      ],
+      strokeWeight: 1,
+    });
+
+    expect(result.boundVariables?.strokes).toEqual([null, "color/accent"]);
+  });
+
+  it("skips hidden strokes in node-level bindings", () => {
+    const { result } = extract({
+      strokes: [
+        paint({ r: 0, g: 0, b: 1, a: 1 }, undefined, false),
+        paint({ r: 1, g: 0, b: 0, a: 1 }),
+      ],
+      strokeWeight: 1,
+      boundVariables: { strokes: [alias("blue"), alias("red")] },
+    });
+
+    expect(result.boundVariables?.strokes).toEqual(["red/500"]);
+  });
+
+  it("omits bindings when no paint is bound", () => {
+    const { result } = extract({ fills: [paint({ r: 0, g: 1, b: 0, a: 1 })] });
+
+    expect(result.boundVariables).toBeUndefined();
+  });
+});
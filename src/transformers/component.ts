@@ -1,4 +1,9 @@
-import type { Component, ComponentPropertyType, ComponentSet } from "@figma/rest-api-spec";
+import type {
+  Component,
+  ComponentPropertyDefinition,
+  ComponentPropertyType,
+  ComponentSet,
+} from "@figma/rest-api-spec";
 
 export interface ComponentProperties {
   name: string;
@@ -20,6 +25,19 @@ export interface SimplifiedComponentSetDefinition {
   description?: string;
 }
 
+export interface SimplifiedPropertyDefinition {
+  type: ComponentPropertyType;
+  defaultValue: string | boolean;
+  /**
+   * For VARIANT properties, the available options
+   */
+  variantOptions?: string[];
+  /**
+   * For INSTANCE_SWAP properties, keys of the preferred components
+   */
+  preferredValues?: string[];
+}
+
 /**
  * Remove unnecessary component properties and convert to simplified format.
  */
@@ -57,3 +75,37 @@ export function simplifyComponentSets(
     ]),
   );
 }
+
+/**
+ * Convert a component or component set's property definitions to simplified format.
+ *
+ * Keys are kept as-is (e.g. "Label#12:0") so they match the names in instances' componentProperties.
+ */
+export function simplifyPropertyDefinitions(
+  definitions: Record<string, ComponentPropertyDefinition>,
+): Record<string, SimplifiedPropertyDefinition> {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([name, definition]) => [
+      name,
+      {
+        type: definition.type,
+        defaultValue: definition.defaultValue,
+        variantOptions: definition.variantOptions,
+        preferredValues: definition.preferredValues?.map((value) => value.key),
+      },
+    ]),
+  );
+}
+
+/**
+ * Parse a variant's property combination from its name, e.g. "Size=Large, State=Hover".
+ */
+export function parseVariantProperties(name: string): Record<string, string> {
+  return Object.fromEntries(
+    name
+      .split(",")
+      .map((pair) => pair.split("="))
+      .filter((parts) => parts.length === 2)
+      .map(([key, value]) => [key.trim(), value.trim()]),
+  );
+}
@@ -3,68 +3,173 @@ import type {
   InnerShadowEffect,
   BlurEffect,
   Node as FigmaDocumentNode,
+  ProgressiveBlurEffect,
 } from "@figma/rest-api-spec";
-import { formatRGBAColor } from "~/transformers/style.js";
-import { hasValue } from "~/utils/identity.js";
+import { convertBlendMode, formatRGBAColor } from "~/transformers/style.js";
+import { hasValue, isRectangle } from "~/utils/identity.js";
+import { isVisible, pixelRound } from "~/utils/common.js";
+
+export type SimplifiedShadow = {
+  type: "drop" | "inner";
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread?: number;
+  color: string;
+  blendMode?: string;
+  // Figma shows this drop shadow through translucent parts of the node, which box-shadow never does
+  showBehindNode?: boolean;
+};
+
+/**
+ * A blur whose radius ramps from `startRadius` to `radius` between two points of the node.
+ * CSS can't vary a blur radius, so `maskImage` fades a full-strength blur in along the same line.
+ */
+export type SimplifiedProgressiveBlur = {
+  property: "filter" | "backdropFilter";
+  startRadius: number;
+  radius: number;
+  maskImage: string;
+};
 
 export type SimplifiedEffects = {
   boxShadow?: string;
   filter?: string;
   backdropFilter?: string;
   textShadow?: string;
+  // Every visible shadow layer, in the same order as the CSS shadow lists
+  shadows?: SimplifiedShadow[];
+  progressiveBlurs?: SimplifiedProgressiveBlur[];
 };
 
 export function buildSimplifiedEffects(n: FigmaDocumentNode): SimplifiedEffects {
   if (!hasValue("effects", n)) return {};
-  const effects = n.effects.filter((e) => e.visible);
-
-  // Handle drop and inner shadows (both go into CSS box-shadow)
-  const dropShadows = effects
-    .filter((e): e is DropShadowEffect => e.type === "DROP_SHADOW")
-    .map(simplifyDropShadow);
-
-  const innerShadows = effects
-    .filter((e): e is InnerShadowEffect => e.type === "INNER_SHADOW")
-    .map(simplifyInnerShadow);
+  const effects = n.effects.filter(isVisible);
+  const allowsSpread = supportsShadowSpread(n);
 
-  const boxShadow = [...dropShadows, ...innerShadows].join(", ");
+  // Drop shadows are listed before inner shadows, matching the CSS box-shadow order
+  const shadows = [
+    ...effects
+      .filter((e): e is DropShadowEffect => e.type === "DROP_SHADOW")
+      .map((e) => simplifyShadow(e, "drop", allowsSpread)),
+    ...effects
+      .filter((e): e is InnerShadowEffect => e.type === "INNER_SHADOW")
+      .map((e) => simplifyShadow(e, "inner", allowsSpread)),
+  ];
 
-  // Handle blur effects - separate by CSS property
   // Layer blurs use the CSS 'filter' property
-  const filterBlurValues = effects
-    .filter((e): e is BlurEffect => e.type === "LAYER_BLUR")
-    .map(simplifyBlur)
-    .join(" ");
-
+  const layerBlurs = effects.filter((e): e is BlurEffect => e.type === "LAYER_BLUR");
   // Background blurs use the CSS 'backdrop-filter' property
-  const backdropFilterValues = effects
-    .filter((e): e is BlurEffect => e.type === "BACKGROUND_BLUR")
-    .map(simplifyBlur)
-    .join(" ");
+  const backgroundBlurs = effects.filter((e): e is BlurEffect => e.type === "BACKGROUND_BLUR");
 
   const result: SimplifiedEffects = {};
 
-  if (boxShadow) {
+  if (shadows.length) {
     if (n.type === "TEXT") {
-      result.textShadow = boxShadow;
+      // text-shadow has no inset or spread, so inner shadows are only kept in `shadows`
+      const textShadow = shadows
+        .filter((shadow) => shadow.type === "drop")
+        .map(formatTextShadow)
+        .join(", ");
+      if (textShadow) result.textShadow = textShadow;
     } else {
-      result.boxShadow = boxShadow;
+      result.boxShadow = shadows.map(formatBoxShadow).join(", ");
     }
+    result.shadows = shadows;
+  }
+
+  if (layerBlurs.length) result.filter = layerBlurs.map(simplifyBlur).join(" ");
+  if (backgroundBlurs.length) {
+    result.backdropFilter = backgroundBlurs.map(simplifyBlur).join(" ");
   }
-  if (filterBlurValues) result.filter = filterBlurValues;
-  if (backdropFilterValues) result.backdropFilter = backdropFilterValues;
+
+  const progressiveBlurs = [
+    ...layerBlurs.filter(isProgressiveBlur).map((e) => simplifyProgressiveBlur(n, e, "filter")),
+    ...backgroundBlurs
+      .filter(isProgressiveBlur)
+      .map((e) => simplifyProgressiveBlur(n, e, "backdropFilter")),
+  ];
+  if (progressiveBlurs.length) result.progressiveBlurs = progressiveBlurs;
 
   return result;
 }
 
-function simplifyDropShadow(effect: DropShadowEffect) {
-  return `${effect.offset.x}px ${effect.offset.y}px ${effect.radius}px ${effect.spread ?? 0}px ${formatRGBAColor(effect.color)}`;
+// Figma ignores shadow spread unless the shadow follows a simple box
+function supportsShadowSpread(n: FigmaDocumentNode): boolean {
+  if (n.type === "RECTANGLE" || n.type === "ELLIPSE") return true;
+  if (n.type === "FRAME" || n.type === "COMPONENT" || n.type === "INSTANCE") {
+    return n.clipsContent && Array.isArray(n.fills) && n.fills.some(isVisible);
+  }
+  return false;
 }
 
-function simplifyInnerShadow(effect: InnerShadowEffect) {
-  return `inset ${effect.offset.x}px ${effect.offset.y}px ${effect.radius}px ${effect.spread ?? 0}px ${formatRGBAColor(effect.color)}`;
+function simplifyShadow(
+  effect: DropShadowEffect | InnerShadowEffect,
+  type: SimplifiedShadow["type"],
+  allowsSpread: boolean,
+): SimplifiedShadow {
+  const shadow: SimplifiedShadow = {
+    type,
+    offsetX: effect.offset.x,
+    offsetY: effect.offset.y,
+    blur: effect.radius,
+    color: formatRGBAColor(effect.color),
+  };
+  if (allowsSpread && effect.spread) shadow.spread = effect.spread;
+  const blendMode = convertBlendMode(effect.blendMode);
+  if (blendMode) shadow.blendMode = blendMode;
+  if (effect.type === "DROP_SHADOW" && effect.showShadowBehindNode) shadow.showBehindNode = true;
+  return shadow;
+}
+
+function formatBoxShadow(shadow: SimplifiedShadow) {
+  const inset = shadow.type === "inner" ? "inset " : "";
+  return `${inset}${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.spread ?? 0}px ${shadow.color}`;
+}
+
+function formatTextShadow(shadow: SimplifiedShadow) {
+  return `${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color}`;
 }
 
 function simplifyBlur(effect: BlurEffect) {
   return `blur(${effect.radius}px)`;
 }
+
+function isProgressiveBlur(effect: BlurEffect): effect is ProgressiveBlurEffect {
+  return effect.blurType === "PROGRESSIVE";
+}
+
+// Offsets are normalized to the node's bounds; project them onto a CSS gradient line
+function simplifyProgressiveBlur(
+  n: FigmaDocumentNode,
+  effect: ProgressiveBlurEffect,
+  property: SimplifiedProgressiveBlur["property"],
+): SimplifiedProgressiveBlur {
+  const { width, height } = isRectangle("absoluteBoundingBox", n)
+    ? n.absoluteBoundingBox
+    : { width: 1, height: 1 };
+
+  const dx = (effect.endOffset.x - effect.startOffset.x) * width;
+  const dy = (effect.endOffset.y - effect.startOffset.y) * height;
+  // CSS gradient angles start at the top and turn clockwise
+  const radians = Math.atan2(dx, -dy);
+  const angle = (radians * 180) / Math.PI;
+  const lineLength =
+    Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians)) || 1;
+  const position = (offset: { x: number; y: number }) =>
+    pixelRound(
+      (((offset.x - 0.5) * width * Math.sin(radians) -
+        (offset.y - 0.5) * height * Math.cos(radians)) /
+        lineLength +
+        0.5) *
+        100,
+    );
+
+  const startAlpha = effect.radius ? pixelRound(effect.startRadius / effect.radius) : 1;
+  return {
+    property,
+    startRadius: effect.startRadius,
+    radius: effect.radius,
+    maskImage: `linear-gradient(${pixelRound((angle + 360) % 360)}deg, rgba(0, 0, 0, ${startAlpha}) ${position(effect.startOffset)}%, rgba(0, 0, 0, 1) ${position(effect.endOffset)}%)`,
+  };
+}
@@ -0,0 +1,195 @@
+import type {
+  Action,
+  Easing,
+  Interaction,
+  Node as FigmaDocumentNode,
+  Transition,
+  Trigger,
+} from "@figma/rest-api-spec";
+import { hasValue } from "~/utils/identity.js";
+
+export type SimplifiedTransition = {
+  type: Transition["type"];
+  /**
+   * Duration in milliseconds
+   */
+  duration: number;
+  /**
+   * CSS timing function, e.g. "ease-out" or "cubic-bezier(0.3, -0.05, 0.7, -0.5)"
+   */
+  easing?: string;
+  /**
+   * Spring parameters for spring easings, which have no CSS timing function equivalent
+   */
+  spring?: { mass: number; stiffness: number; damping: number };
+  direction?: "LEFT" | "RIGHT" | "TOP" | "BOTTOM";
+};
+
+export type SimplifiedAction = {
+  /**
+   * Navigation type for node actions (NAVIGATE, OVERLAY, SWAP, SCROLL_TO, CHANGE_TO),
+   * otherwise the action type (BACK, CLOSE, URL, SET_VARIABLE, ...)
+   */
+  type: string;
+  destinationId?: string;
+  destinationName?: string;
+  url?: string;
+  transition?: SimplifiedTransition;
+  preserveScrollPosition?: boolean;
+  mediaAction?: string;
+  variableId?: string;
+  variableCollectionId?: string;
+  variableModeId?: string;
+  /**
+   * For CONDITIONAL actions, the actions of each branch in order
+   */
+  branches?: SimplifiedAction[][];
+};
+
+export type SimplifiedInteraction = {
+  trigger: Trigger["type"];
+  /**
+   * Delay or timeout before the trigger fires, in milliseconds
+   */
+  delay?: number;
+  keyCodes?: number[];
+  actions: SimplifiedAction[];
+};
+
+// Figma's spring presets, as shown in the prototype easing picker
+const SPRING_PRESETS: Record<string, SimplifiedTransition["spring"]> = {
+  GENTLE: { mass: 1, stiffness: 100, damping: 15 },
+  QUICK: { mass: 1, stiffness: 300, damping: 20 },
+  BOUNCY: { mass: 1, stiffness: 600, damping: 15 },
+  SLOW: { mass: 1, stiffness: 80, damping: 20 },
+};
+
+const CSS_EASINGS: Record<string, string> = {
+  EASE_IN: "ease-in",
+  EASE_OUT: "ease-out",
+  EASE_IN_AND_OUT: "ease-in-out",
+  LINEAR: "linear",
+  EASE_IN_BACK: "cubic-bezier(0.3, -0.05, 0.7, -0.5)",
+  EASE_OUT_BACK: "cubic-bezier(0.45, 1.45, 0.8, 1)",
+  EASE_IN_AND_OUT_BACK: "cubic-bezier(0.7, -0.4, 0.4, 1.4)",
+};
+
+/**
+ * Build a compact list of prototype interactions for a node.
+ *
+ * @param n - The Figma node to read interactions from
+ * @param nodeNames - Map of node ID to name, used to name action destinations
+ * @returns Simplified interactions, or undefined if the node has none
+ */
+export function buildSimplifiedInteractions(
+  n: FigmaDocumentNode,
+  nodeNames: Record<string, string> = {},
+): SimplifiedInteraction[] | undefined {
+  if (!hasValue("interactions", n) || !Array.isArray(n.interactions)) return undefined;
+
+  const interactions = (n.interactions as Interaction[])
+    .filter(
+      (interaction): interaction is Interaction & { trigger: Trigger } => !!interaction.trigger,
+    )
+    .map((interaction) => simplifyInteraction(interaction, nodeNames))
+    .filter((interaction) => interaction.actions.length > 0);
+
+  return interactions.length ? interactions : undefined;
+}
+
+function simplifyInteraction(
+  { trigger, actions = [] }: Interaction & { trigger: Trigger },
+  nodeNames: Record<string, string>,
+): SimplifiedInteraction {
+  return {
+    trigger: trigger.type,
+    delay:
+      "timeout" in trigger
+        ? trigger.timeout
+        : "delay" in trigger
+          ? trigger.delay || undefined
+          : undefined,
+    keyCodes: "keyCodes" in trigger ? trigger.keyCodes : undefined,
+    actions: simplifyActions(actions, nodeNames),
+  };
+}
+
+function simplifyActions(
+  actions: (Action | null)[],
+  nodeNames: Record<string, string>,
+): SimplifiedAction[] {
+  return actions
+    .filter((action): action is Action => !!action)
+    .map((action) => simplifyAction(action, nodeNames));
+}
+
+function simplifyAction(action: Action, nodeNames: Record<string, string>): SimplifiedAction {
+  switch (action.type) {
+    case "NODE":
+      return {
+        type: action.navigation,
+        ...describeDestination(action.destinationId, nodeNames),
+        transition: action.transition ? simplifyTransition(action.transition) : undefined,
+        preserveScrollPosition: action.preserveScrollPosition || undefined,
+      };
+    case "URL":
+      return { type: action.type, url: action.url };
+    case "UPDATE_MEDIA_RUNTIME":
+      return {
+        type: action.type,
+        mediaAction: action.mediaAction,
+        ...describeDestination(action.destinationId, nodeNames),
+      };
+    case "SET_VARIABLE":
+      return { type: action.type, variableId: action.variableId ?? undefined };
+    case "SET_VARIABLE_MODE":
+      return {
+        type: action.type,
+        variableCollectionId: action.variableCollectionId ?? undefined,
+        variableModeId: action.variableModeId ?? undefined,
+      };
+    case "CONDITIONAL":
+      return {
+        type: action.type,
+        branches: action.conditionalBlocks.map((block) =>
+          simplifyActions(block.actions, nodeNames),
+        ),
+      };
+    default:
+      return { type: action.type };
+  }
+}
+
+function describeDestination(
+  destinationId: string | null | undefined,
+  nodeNames: Record<string, string>,
+): Pick<SimplifiedAction, "destinationId" | "destinationName"> {
+  if (!destinationId) return {};
+  return { destinationId, destinationName: nodeNames[destinationId] };
+}
+
+function simplifyTransition(transition: Transition): SimplifiedTransition {
+  return {
+    type: transition.type,
+    duration: transition.duration,
+    ...convertEasing(transition.easing),
+    direction: "direction" in transition ? transition.direction : undefined,
+  };
+}
+
+/**
+ * Convert a Figma easing to a CSS timing function, or spring parameters for spring easings.
+ */
+function convertEasing(easing: Easing): Pick<SimplifiedTransition, "easing" | "spring"> {
+  if (easing.type === "CUSTOM_CUBIC_BEZIER" && easing.easingFunctionCubicBezier) {
+    const { x1, y1, x2, y2 } = easing.easingFunctionCubicBezier;
+    return { easing: `cubic-bezier(${x1}, ${y1}, ${x2}, ${y2})` };
+  }
+  if (easing.type === "CUSTOM_SPRING" && easing.easingFunctionSpring) {
+    return { spring: easing.easingFunctionSpring };
+  }
+  if (SPRING_PRESETS[easing.type]) {
+    return { spring: SPRING_PRESETS[easing.type] };
+  }
+  return { easing: CSS_EASINGS[easing.type] };
+}
@@ -1,18 +1,40 @@
-import { isInAutoLayoutFlow, isFrame, isLayout, isRectangle } from "~/utils/identity.js";
+import { isInAutoLayoutFlow, isFrame, isLayout } from "~/utils/identity.js";
 import type {
   Node as FigmaDocumentNode,
   HasFramePropertiesTrait,
   HasLayoutTrait,
+  LayoutConstraint,
+  LayoutGrid,
+  Rectangle,
 } from "@figma/rest-api-spec";
 import { generateCSSShorthand, pixelRound } from "~/utils/common.js";
 
 export interface SimplifiedLayout {
-  mode: "none" | "row" | "column";
+  mode: "none" | "row" | "column" | "grid";
   justifyContent?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
   alignItems?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
   alignSelf?: "flex-start" | "flex-end" | "center" | "stretch";
   wrap?: boolean;
   gap?: string;
+  /**
+   * Track setup of a grid container, translatable to CSS grid-template-columns/rows
+   */
+  grid?: {
+    columnCount?: number;
+    rowCount?: number;
+    templateColumns?: string;
+    templateRows?: string;
+  };
+  /**
+   * Placement of a child within its parent grid, as CSS grid-column/grid-row values
+   * (1-based lines, e.g. "2 / span 3") and self alignment within its grid area
+   */
+  gridItem?: {
+    column?: string;
+    row?: string;
+    justifySelf?: "start" | "center" | "end";
+    alignSelf?: "start" | "center" | "end";
+  };
   locationRelativeToParent?: {
     x: number;
     y: number;
@@ -21,6 +43,10 @@ export interface SimplifiedLayout {
     width?: number;
     height?: number;
     aspectRatio?: number;
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
   };
   padding?: string;
   sizing?: {
@@ -28,7 +54,49 @@ export interface SimplifiedLayout {
     vertical?: "fixed" | "fill" | "hug";
   };
   overflowScroll?: ("x" | "y")[];
+  // Frames that clip their content
+  overflow?: "hidden";
   position?: "absolute";
+  /**
+   * CSS transform for rotated or flipped nodes, applied around the element's center.
+   * Location and dimensions then describe the node's own box before the transform.
+   */
+  transform?: string;
+  /**
+   * How a child outside auto layout flow responds to its parent resizing, as CSS insets:
+   * pinned edges in px, centered nodes offset from 50%, and SCALE constraints as percentages.
+   * Only emitted when the node isn't simply pinned to the top left.
+   */
+  constraints?: {
+    left?: string;
+    right?: string;
+    top?: string;
+    bottom?: string;
+    width?: string;
+    height?: string;
+  };
+}
+
+/**
+ * A column, row or square layout grid drawn over a frame. Offsets and gutters are in px;
+ * `containerSize` is the width (columns) or height (rows) the grid's tracks span.
+ */
+export interface SimplifiedLayoutGrid {
+  pattern: "columns" | "rows" | "grid";
+  count?: number;
+  sectionSize?: number;
+  gutter?: string;
+  alignment?: "stretch" | "start" | "end" | "center";
+  // Margin on both sides for stretch grids, otherwise the distance from the aligned edge
+  offset?: string;
+  containerSize?: number;
+  // Figma Variables bound to grid fields, resolved to globalVars.variables keys
+  boundVariables?: {
+    count?: string;
+    sectionSize?: string;
+    gutter?: string;
+    offset?: string;
+  };
 }
 
 // Convert Figma's layout config into a more typical flex-like schema
@@ -151,18 +219,25 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
         ? "none"
         : n.layoutMode === "HORIZONTAL"
           ? "row"
-          : "column",
+          : n.layoutMode === "GRID"
+            ? "grid"
+            : "column",
   };
 
   const overflowScroll: SimplifiedLayout["overflowScroll"] = [];
   if (n.overflowDirection?.includes("HORIZONTAL")) overflowScroll.push("x");
   if (n.overflowDirection?.includes("VERTICAL")) overflowScroll.push("y");
   if (overflowScroll.length > 0) frameValues.overflowScroll = overflowScroll;
+  if (n.clipsContent) frameValues.overflow = "hidden";
 
   if (frameValues.mode === "none") {
     return frameValues;
   }
 
+  if (frameValues.mode === "grid") {
+    return { ...frameValues, ...buildSimplifiedGridValues(n) };
+  }
+
   // TODO: convertAlign should be two functions, one for justifyContent and one for alignItems
   frameValues.justifyContent = convertAlign(n.primaryAxisAlignItems ?? "MIN", {
     children: n.children,
@@ -179,33 +254,102 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
   // Only include wrap if it's set to WRAP, since flex layouts don't default to wrapping
   frameValues.wrap = n.layoutWrap === "WRAP" ? true : undefined;
   frameValues.gap = n.itemSpacing ? `${n.itemSpacing ?? 0}px` : undefined;
-  // gather padding
+  frameValues.padding = buildPadding(n);
+
+  return frameValues;
+}
+
+function buildPadding(n: HasFramePropertiesTrait): string | undefined {
   if (n.paddingTop || n.paddingBottom || n.paddingLeft || n.paddingRight) {
-    frameValues.padding = generateCSSShorthand({
+    return generateCSSShorthand({
       top: n.paddingTop ?? 0,
       right: n.paddingRight ?? 0,
       bottom: n.paddingBottom ?? 0,
       left: n.paddingLeft ?? 0,
     });
   }
+  return undefined;
+}
 
-  return frameValues;
+// Grid auto layout maps directly onto CSS grid; Figma already provides CSS track sizes
+function buildSimplifiedGridValues(
+  n: HasFramePropertiesTrait & HasLayoutTrait,
+): Partial<SimplifiedLayout> {
+  const grid: NonNullable<SimplifiedLayout["grid"]> = {
+    columnCount: n.gridColumnCount,
+    rowCount: n.gridRowCount,
+    templateColumns:
+      n.gridColumnsSizing ||
+      (n.gridColumnCount ? `repeat(${n.gridColumnCount}, minmax(0, 1fr))` : undefined),
+    templateRows: n.gridRowsSizing || undefined,
+  };
+
+  // CSS gap is "<row-gap> <column-gap>"
+  const rowGap = n.gridRowGap ?? 0;
+  const columnGap = n.gridColumnGap ?? 0;
+  const gap =
+    rowGap || columnGap
+      ? rowGap === columnGap
+        ? `${rowGap}px`
+        : `${rowGap}px ${columnGap}px`
+      : undefined;
+
+  return { grid, gap, padding: buildPadding(n), alignSelf: convertSelfAlign(n.layoutAlign) };
+}
+
+function convertGridAlign(
+  align?: HasLayoutTrait["gridChildHorizontalAlign"] | HasLayoutTrait["gridChildVerticalAlign"],
+) {
+  switch (align) {
+    case "MIN":
+      return "start";
+    case "CENTER":
+      return "center";
+    case "MAX":
+      return "end";
+    default:
+      // AUTO stretches to fill the grid area, the CSS default
+      return undefined;
+  }
+}
+
+// CSS grid lines are 1-based, while Figma's anchor indexes are 0-based
+function convertGridPlacement(anchorIndex?: number, span?: number): string | undefined {
+  const spanValue = span && span > 1 ? `span ${span}` : undefined;
+  if (anchorIndex === undefined || anchorIndex < 0) return spanValue;
+  return spanValue ? `${anchorIndex + 1} / ${spanValue}` : `${anchorIndex + 1}`;
+}
+
+function buildGridItemValues(n: HasLayoutTrait): SimplifiedLayout["gridItem"] {
+  const gridItem: NonNullable<SimplifiedLayout["gridItem"]> = {
+    column: convertGridPlacement(n.gridColumnAnchorIndex, n.gridColumnSpan),
+    row: convertGridPlacement(n.gridRowAnchorIndex, n.gridRowSpan),
+    justifySelf: convertGridAlign(n.gridChildHorizontalAlign),
+    alignSelf: convertGridAlign(n.gridChildVerticalAlign),
+  };
+  return Object.values(gridItem).some((value) => value !== undefined) ? gridItem : undefined;
 }
 
 function buildSimplifiedLayoutValues(
   n: FigmaDocumentNode,
   parent: FigmaDocumentNode | undefined,
-  mode: "row" | "column" | "none",
+  mode: SimplifiedLayout["mode"],
 ): SimplifiedLayout | undefined {
   if (!isLayout(n)) return undefined;
 
   const layoutValues: SimplifiedLayout = { mode };
+  const { box, transform } = getUntransformedBox(n);
+  if (transform) layoutValues.transform = transform;
 
   layoutValues.sizing = {
     horizontal: convertSizing(n.layoutSizingHorizontal),
     vertical: convertSizing(n.layoutSizingVertical),
   };
 
+  if (isFrame(parent) && parent.layoutMode === "GRID" && n.layoutPositioning !== "ABSOLUTE") {
+    layoutValues.gridItem = buildGridItemValues(n);
+  }
+
   // Only include positioning-related properties if parent layout isn't flex or if the node is absolute
   if (
     // If parent is a frame but not an AutoLayout, or if the node is absolute, include positioning-related properties
@@ -215,42 +359,41 @@ function buildSimplifiedLayoutValues(
     if (n.layoutPositioning === "ABSOLUTE") {
       layoutValues.position = "absolute";
     }
-    if (n.absoluteBoundingBox && parent.absoluteBoundingBox) {
+    if (box && parent.absoluteBoundingBox) {
       layoutValues.locationRelativeToParent = {
-        x: pixelRound(n.absoluteBoundingBox.x - parent.absoluteBoundingBox.x),
-        y: pixelRound(n.absoluteBoundingBox.y - parent.absoluteBoundingBox.y),
+        x: pixelRound(box.x - parent.absoluteBoundingBox.x),
+        y: pixelRound(box.y - parent.absoluteBoundingBox.y),
       };
     }
+    layoutValues.constraints = box && buildConstraintValues(n, box, parent);
   }
 
   // Handle dimensions based on layout growth and alignment
-  if (isRectangle("absoluteBoundingBox", n)) {
+  if (box) {
     const dimensions: { width?: number; height?: number; aspectRatio?: number } = {};
 
     // Only include dimensions that aren't meant to stretch
     if (mode === "row") {
       // AutoLayout row, only include dimensions if the node is not growing
-      if (!n.layoutGrow && n.layoutSizingHorizontal == "FIXED")
-        dimensions.width = n.absoluteBoundingBox.width;
+      if (!n.layoutGrow && n.layoutSizingHorizontal == "FIXED") dimensions.width = box.width;
       if (n.layoutAlign !== "STRETCH" && n.layoutSizingVertical == "FIXED")
-        dimensions.height = n.absoluteBoundingBox.height;
+        dimensions.height = box.height;
     } else if (mode === "column") {
       // AutoLayout column, only include dimensions if the node is not growing
       if (n.layoutAlign !== "STRETCH" && n.layoutSizingHorizontal == "FIXED")
-        dimensions.width = n.absoluteBoundingBox.width;
-      if (!n.layoutGrow && n.layoutSizingVertical == "FIXED")
-        dimensions.height = n.absoluteBoundingBox.height;
+        dimensions.width = box.width;
+      if (!n.layoutGrow && n.layoutSizingVertical == "FIXED") dimensions.height = box.height;
 
       if (n.preserveRatio) {
-        dimensions.aspectRatio = n.absoluteBoundingBox?.width / n.absoluteBoundingBox?.height;
+        dimensions.aspectRatio = box.width / box.height;
       }
     } else {
       // Node is not an AutoLayout. Include dimensions if the node is not growing (which it should never be)
       if (!n.layoutSizingHorizontal || n.layoutSizingHorizontal === "FIXED") {
-        dimensions.width = n.absoluteBoundingBox.width;
+        dimensions.width = box.width;
       }
       if (!n.layoutSizingVertical || n.layoutSizingVertical === "FIXED") {
-        dimensions.height = n.absoluteBoundingBox.height;
+        dimensions.height = box.height;
       }
     }
 
@@ -265,5 +408,240 @@ function buildSimplifiedLayoutValues(
     }
   }
 
+  // Sizes that come from constraints replace the fixed pixel size
+  if (layoutValues.dimensions && layoutValues.constraints) {
+    const { left, right, top, bottom, width, height } = layoutValues.constraints;
+    if (width || (left && right)) delete layoutValues.dimensions.width;
+    if (height || (top && bottom)) delete layoutValues.dimensions.height;
+  }
+
+  const sizeLimits = {
+    minWidth: n.minWidth ?? undefined,
+    maxWidth: n.maxWidth ?? undefined,
+    minHeight: n.minHeight ?? undefined,
+    maxHeight: n.maxHeight ?? undefined,
+  };
+  if (Object.values(sizeLimits).some((value) => value !== undefined)) {
+    layoutValues.dimensions = { ...layoutValues.dimensions, ...sizeLimits };
+  }
+
+  if (layoutValues.dimensions && Object.keys(layoutValues.dimensions).length === 0) {
+    delete layoutValues.dimensions;
+  }
+
   return layoutValues;
 }
+
+// Below this many radians a node counts as unrotated
+const ROTATION_EPSILON = 1e-4;
+
+/**
+ * A rotated node's absoluteBoundingBox is the axis-aligned box around the rotated shape.
+ * Recover the node's own box, centered on the bounding box so that a CSS transform around
+ * the element's center reproduces the rendered shape.
+ */
+function getUntransformedBox(n: HasLayoutTrait & { type: string; rotation?: number }): {
+  box?: Rectangle;
+  transform?: string;
+} {
+  const bounds = n.absoluteBoundingBox;
+  if (!bounds) return {};
+
+  // relativeTransform (only sent with geometry=paths) also reveals flips; rotation alone doesn't
+  let angle = -(n.rotation ?? 0);
+  let flipped = false;
+  if (n.relativeTransform) {
+    const [[a, b], [c, d]] = n.relativeTransform;
+    flipped = a * d - b * c < 0;
+    // A flip is expressed as scaleX(-1) applied before the rotation
+    angle = flipped ? Math.atan2(-c, -a) : Math.atan2(c, a);
+  }
+  if (Math.abs(angle) < ROTATION_EPSILON && !flipped) return { box: bounds };
+
+  const { width, height } = n.size
+    ? { width: n.size.x, height: n.size.y }
+    : solveUnrotatedSize(n.type, bounds, angle);
+  const degrees = pixelRound((angle * 180) / Math.PI);
+  const transform = [
+    Math.abs(angle) >= ROTATION_EPSILON ? `rotate(${degrees}deg)` : undefined,
+    flipped ? "scaleX(-1)" : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    box: {
+      x: bounds.x + (bounds.width - width) / 2,
+      y: bounds.y + (bounds.height - height) / 2,
+      width,
+      height,
+    },
+    transform,
+  };
+}
+
+// Invert the bounding box of a rotated rectangle when Figma doesn't send the node's size
+function solveUnrotatedSize(
+  type: string,
+  bounds: Rectangle,
+  angle: number,
+): { width: number; height: number } {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  // Lines have no height, so their length is the bounding box diagonal
+  if (type === "LINE") {
+    return { width: Math.hypot(bounds.width, bounds.height), height: 0 };
+  }
+  // Near 45° every box with the same width + height has the same bounds; assume a square
+  const determinant = cos * cos - sin * sin;
+  if (Math.abs(determinant) < 0.05) {
+    const side = bounds.width / (cos + sin);
+    return { width: side, height: side };
+  }
+  return {
+    width: Math.max((bounds.width * cos - bounds.height * sin) / determinant, 0),
+    height: Math.max((bounds.height * cos - bounds.width * sin) / determinant, 0),
+  };
+}
+
+// Express one axis of a Figma constraint as CSS start/end insets and, for SCALE, a relative size
+function convertAxisConstraint(
+  constraint: LayoutConstraint["horizontal"] | LayoutConstraint["vertical"],
+  offset: number,
+  size: number,
+  parentSize: number,
+): { start?: string; end?: string; size?: string } {
+  const end = parentSize - offset - size;
+  switch (constraint) {
+    case "LEFT":
+    case "TOP":
+      return { start: `${pixelRound(offset)}px` };
+    case "RIGHT":
+    case "BOTTOM":
+      return { end: `${pixelRound(end)}px` };
+    case "LEFT_RIGHT":
+    case "TOP_BOTTOM":
+      return { start: `${pixelRound(offset)}px`, end: `${pixelRound(end)}px` };
+    case "CENTER": {
+      // Keep the node's distance from the parent's center as it resizes
+      const fromCenter = pixelRound(offset - parentSize / 2);
+      if (fromCenter === 0) return { start: "50%" };
+      return {
+        start: `calc(50% ${fromCenter < 0 ? "-" : "+"} ${Math.abs(fromCenter)}px)`,
+      };
+    }
+    case "SCALE":
+      if (!parentSize) return { start: `${pixelRound(offset)}px` };
+      return {
+        start: `${pixelRound((offset / parentSize) * 100)}%`,
+        size: `${pixelRound((size / parentSize) * 100)}%`,
+      };
+  }
+}
+
+function buildConstraintValues(
+  n: HasLayoutTrait,
+  box: Rectangle,
+  parent: Pick<HasLayoutTrait, "absoluteBoundingBox">,
+): SimplifiedLayout["constraints"] {
+  const { constraints } = n;
+  if (!constraints || !parent.absoluteBoundingBox) return undefined;
+  if (constraints.horizontal === "LEFT" && constraints.vertical === "TOP") return undefined;
+
+  const parentBox = parent.absoluteBoundingBox;
+  const horizontal = convertAxisConstraint(
+    constraints.horizontal,
+    box.x - parentBox.x,
+    box.width,
+    parentBox.width,
+  );
+  const vertical = convertAxisConstraint(
+    constraints.vertical,
+    box.y - parentBox.y,
+    box.height,
+    parentBox.height,
+  );
+
+  return {
+    left: horizontal.start,
+    right: horizontal.end,
+    top: vertical.start,
+    bottom: vertical.end,
+    width: horizontal.size,
+    height: vertical.size,
+  };
+}
+
+function convertGridAlignment(
+  alignment: LayoutGrid["alignment"],
+): SimplifiedLayoutGrid["alignment"] {
+  switch (alignment) {
+    case "MIN":
+      return "start";
+    case "MAX":
+      return "end";
+    case "CENTER":
+      return "center";
+    case "STRETCH":
+      return "stretch";
+  }
+}
+
+/**
+ * Convert a frame's visible layout grids. `resolveVariable` maps a bound variable ID to the
+ * name it is exposed under, so grids bound to spacing tokens reference them.
+ */
+export function buildSimplifiedLayoutGrids(
+  n: FigmaDocumentNode,
+  resolveVariable: (id: string) => string = (id) => id,
+): SimplifiedLayoutGrid[] {
+  if (!isFrame(n) || !n.layoutGrids) return [];
+
+  return n.layoutGrids
+    .filter((grid) => grid.visible !== false)
+    .map((grid): SimplifiedLayoutGrid => {
+      // Square grids only have a cell size
+      if (grid.pattern === "GRID") {
+        return { pattern: "grid", sectionSize: grid.sectionSize };
+      }
+
+      const frameSize =
+        grid.pattern === "COLUMNS" ? n.absoluteBoundingBox?.width : n.absoluteBoundingBox?.height;
+      const gutters = grid.gutterSize * Math.max(grid.count - 1, 0);
+      // Stretch grids derive their track size from the frame, so Figma's sectionSize is stale
+      const sectionSize =
+        grid.alignment === "STRETCH"
+          ? frameSize !== undefined && grid.count > 0
+            ? pixelRound((frameSize - 2 * grid.offset - gutters) / grid.count)
+            : undefined
+          : grid.sectionSize;
+      const containerSize =
+        grid.alignment === "STRETCH"
+          ? frameSize !== undefined
+            ? pixelRound(frameSize - 2 * grid.offset)
+            : undefined
+          : pixelRound(grid.sectionSize * grid.count + gutters);
+
+      const bound = grid.boundVariables;
+      const boundVariables: SimplifiedLayoutGrid["boundVariables"] = bound && {
+        count: bound.numSections && resolveVariable(bound.numSections.id),
+        sectionSize: bound.sectionSize && resolveVariable(bound.sectionSize.id),
+        gutter: bound.gutterSize && resolveVariable(bound.gutterSize.id),
+        offset: bound.offset && resolveVariable(bound.offset.id),
+      };
+
+      return {
+        pattern: grid.pattern === "COLUMNS" ? "columns" : "rows",
+        count: grid.count,
+        sectionSize,
+        gutter: grid.gutterSize ? `${grid.gutterSize}px` : undefined,
+        alignment: convertGridAlignment(grid.alignment),
+        offset: grid.offset ? `${grid.offset}px` : undefined,
+        containerSize,
+        boundVariables:
+          boundVariables && Object.values(boundVariables).some(Boolean)
+            ? boundVariables
+            : undefined,
+      };
+    });
+}
@@ -1,5 +1,8 @@
 import type {
+  BlendMode,
   Node as FigmaDocumentNode,
+  ImageFilters,
+  ImagePaint,
   Paint,
   Vector,
   RGBA,
@@ -27,6 +30,8 @@ export interface ColorValue {
 export type SimplifiedImageFill = {
   type: "IMAGE";
   imageRef: string;
+  // CSS background-blend-mode, when the fill doesn't blend normally
+  blendMode?: string;
   scaleMode: "FILL" | "FIT" | "TILE" | "STRETCH";
   /**
    * For TILE mode, the scaling factor relative to original image size
@@ -61,8 +66,21 @@ export type SimplifiedImageFill = {
      */
     cropTransform?: Transform;
     /**
-     * Suggested filename suffix to make cropped images unique
-     * When the same imageRef is used multiple times with different crops,
+     * Width / height of the node, so stretched images come out at the node's proportions
+     */
+    containerAspectRatio?: number;
+    /**
+     * Image rotation in degrees, counter-clockwise (FILL, FIT and TILE modes; STRETCH images
+     * carry their rotation in cropTransform)
+     */
+    rotation?: number;
+    /**
+     * Color adjustments applied to the image in Figma
+     */
+    filters?: ImageFilters;
+    /**
+     * Suggested filename suffix to make processed images unique
+     * When the same imageRef is used multiple times with different crops, rotations or filters,
      * this helps avoid overwriting conflicts
      */
     filenameSuffix?: string;
@@ -72,6 +90,7 @@ export type SimplifiedImageFill = {
 export type SimplifiedGradientFill = {
   type: "GRADIENT_LINEAR" | "GRADIENT_RADIAL" | "GRADIENT_ANGULAR" | "GRADIENT_DIAMOND";
   gradient: string;
+  blendMode?: string;
 };
 
 export type SimplifiedPatternFill = {
@@ -90,10 +109,21 @@ export type SimplifiedPatternFill = {
   backgroundRepeat: string;
   backgroundSize: string;
   backgroundPosition: string;
+  blendMode?: string;
+};
+
+/**
+ * Solid fills are plain CSS colors unless they need a blend mode
+ */
+export type SimplifiedSolidFill = {
+  type: "SOLID";
+  color: CSSRGBAColor | CSSHexColor;
+  blendMode: string;
 };
 
 export type SimplifiedFill =
   | SimplifiedImageFill
+  | SimplifiedSolidFill
   | SimplifiedGradientFill
   | SimplifiedPatternFill
   | CSSRGBAColor
@@ -175,43 +205,65 @@ function translateScaleMode(
 }
 
 /**
- * Generate a short hash from a transform matrix to create unique filenames
- * @param transform - The transform matrix to hash
+ * Generate a short hash from image processing arguments to create unique filenames
+ * @param values - The numbers describing the processing, e.g. a transform matrix
+ * @param entries - Named values such as "name:value" filter settings
  * @returns Short hash string for filename suffix
  */
-function generateTransformHash(transform: Transform): string {
-  const values = transform.flat();
-  const hash = values.reduce((acc, val) => {
-    // Simple hash function - convert to string and create checksum
-    const str = val.toString();
-    for (let i = 0; i < str.length; i++) {
-      acc = ((acc << 5) - acc + str.charCodeAt(i)) & 0xffffffff;
-    }
-    return acc;
-  }, 0);
+function generateProcessingHash(values: number[], entries: string[] = []): string {
+  // Entries end with a separator so "a:1" + "b:23" and "a:12" + "b:3" differ; numbers are hashed
+  // bare so crop-only suffixes stay the same as before filters were added
+  const hash = [...values.map(String), ...entries.map((entry) => `${entry}|`)].reduce(
+    (acc, str) => {
+      // Simple hash function - convert to string and create checksum
+      for (let i = 0; i < str.length; i++) {
+        acc = ((acc << 5) - acc + str.charCodeAt(i)) & 0xffffffff;
+      }
+      return acc;
+    },
+    0,
+  );
 
   // Convert to positive hex string, take first 6 chars
   return Math.abs(hash).toString(16).substring(0, 6);
 }
 
 /**
- * Handle imageTransform for post-processing (not CSS translation)
+ * Handle imageTransform, rotation and filters for post-processing (not CSS translation)
  *
- * When Figma includes an imageTransform matrix, it means the image is cropped/transformed.
- * This function converts the transform into processing instructions for Sharp.
+ * When Figma includes an imageTransform matrix, it means the image is cropped/transformed. Rotation
+ * and filters change the pixels too. This function converts them into processing instructions for
+ * Sharp, or returns undefined if the image is used as-is.
  *
- * @param imageTransform - Figma's 2x3 transform matrix [[scaleX, skewX, translateX], [skewY, scaleY, translateY]]
- * @returns Processing metadata for image cropping
+ * @param raw - The Figma image paint
+ * @param containerAspectRatio - Width / height of the node the image fills
+ * @returns Processing metadata for image transforms and adjustments
  */
-function handleImageTransform(
-  imageTransform: Transform,
-): NonNullable<SimplifiedImageFill["imageDownloadArguments"]> {
-  const transformHash = generateTransformHash(imageTransform);
+function handleImageProcessing(
+  raw: ImagePaint,
+  containerAspectRatio?: number,
+): Partial<NonNullable<SimplifiedImageFill["imageDownloadArguments"]>> | undefined {
+  const rotation = raw.rotation ? raw.rotation % 360 : 0;
+  const filters = raw.filters
+    ? Object.fromEntries(Object.entries(raw.filters).filter(([, value]) => !!value))
+    : {};
+  const hasFilters = Object.keys(filters).length > 0;
+  if (!raw.imageTransform && !rotation && !hasFilters) return undefined;
+
+  const aspectRatio =
+    raw.imageTransform && containerAspectRatio
+      ? Math.round(containerAspectRatio * 1000) / 1000
+      : undefined;
+
   return {
-    needsCropping: true,
-    requiresImageDimensions: false,
-    cropTransform: imageTransform,
-    filenameSuffix: `${transformHash}`,
+    ...(raw.imageTransform ? { needsCropping: true, cropTransform: raw.imageTransform } : {}),
+    ...(aspectRatio ? { containerAspectRatio: aspectRatio } : {}),
+    ...(rotation ? { rotation } : {}),
+    ...(hasFilters ? { filters } : {}),
+    filenameSuffix: generateProcessingHash(
+      [...(raw.imageTransform?.flat() ?? []), aspectRatio ?? 0, rotation],
+      Object.entries(filters).map(([name, value]) => `${name}:${value}`),
+    ),
   };
 }
 
@@ -250,9 +302,27 @@ export function buildSimplifiedStrokes(
  * Convert a Figma paint (solid, image, gradient) to a SimplifiedFill
  * @param raw - The Figma paint to convert
  * @param hasChildren - Whether the node has children (determines CSS properties)
+ * @param containerAspectRatio - Width / height of the node, used to render stretched image fills
  * @returns The converted SimplifiedFill
  */
-export function parsePaint(raw: Paint, hasChildren: boolean = false): SimplifiedFill {
+export function parsePaint(
+  raw: Paint,
+  hasChildren: boolean = false,
+  containerAspectRatio?: number,
+): SimplifiedFill {
+  const fill = parsePaintValue(raw, hasChildren, containerAspectRatio);
+  const blendMode = convertBlendMode(raw.blendMode, "background-blend-mode");
+  if (!blendMode) return fill;
+  return typeof fill === "string"
+    ? { type: "SOLID", color: fill, blendMode }
+    : { ...fill, blendMode };
+}
+
+function parsePaintValue(
+  raw: Paint,
+  hasChildren: boolean,
+  containerAspectRatio?: number,
+): Exclude<SimplifiedFill, SimplifiedSolidFill> {
   if (raw.type === "IMAGE") {
     const baseImageFill: SimplifiedImageFill = {
       type: "IMAGE",
@@ -270,19 +340,10 @@ export function parsePaint(raw: Paint, hasChildren: boolean = false): Simplified
       raw.scalingFactor,
     );
 
-    // Combine scale mode processing with transform processing if needed
+    // Combine scale mode processing with transform, rotation and filter processing if needed
     // Transform processing (cropping) takes precedence over scale mode processing
-    let finalProcessing = processing;
-    if (raw.imageTransform) {
-      const transformProcessing = handleImageTransform(raw.imageTransform);
-      finalProcessing = {
-        ...processing,
-        ...transformProcessing,
-        // Keep requiresImageDimensions from scale mode (needed for TILE)
-        requiresImageDimensions:
-          processing.requiresImageDimensions || transformProcessing.requiresImageDimensions,
-      };
-    }
+    const imageProcessing = handleImageProcessing(raw, containerAspectRatio);
+    const finalProcessing = imageProcessing ? { ...processing, ...imageProcessing } : processing;
 
     return {
       ...baseImageFill,
@@ -439,6 +500,34 @@ export function formatRGBAColor(color: RGBA, opacity = 1): CSSRGBAColor {
   return `rgba(${r}, ${g}, ${b}, ${a})`;
 }
 
+/**
+ * Convert a Figma blend mode to a CSS mix-blend-mode or background-blend-mode value
+ *
+ * @param blendMode - The Figma blend mode
+ * @param property - The CSS property the value is for
+ * @returns The CSS value, or undefined for modes that need no CSS (normal and pass through)
+ */
+export function convertBlendMode(
+  blendMode?: BlendMode,
+  property: "mix-blend-mode" | "background-blend-mode" = "mix-blend-mode",
+): string | undefined {
+  // Linear modes have no CSS equivalent outside of the plus-* compositing operators, which only
+  // mix-blend-mode accepts; backgrounds get the closest separable mode instead
+  const background = property === "background-blend-mode";
+  switch (blendMode) {
+    case undefined:
+    case "NORMAL":
+    case "PASS_THROUGH":
+      return undefined;
+    case "LINEAR_BURN":
+      return background ? "color-burn" : "plus-darker";
+    case "LINEAR_DODGE":
+      return background ? "color-dodge" : "plus-lighter";
+    default:
+      return blendMode.toLowerCase().replace(/_/g, "-");
+  }
+}
+
 /**
  * Map gradient stops from Figma's handle-based coordinate system to CSS percentages
  */
@@ -1,17 +1,70 @@
-import type { Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import type { Hyperlink, Node as FigmaDocumentNode, TypeStyle } from "@figma/rest-api-spec";
 import { hasValue, isTruthy } from "~/utils/identity.js";
 
 export type SimplifiedTextStyle = Partial<{
   fontFamily: string;
+  fontPostScriptName: string;
   fontWeight: number;
+  fontStyle: "italic";
   fontSize: number;
   lineHeight: string;
   letterSpacing: string;
   textCase: string;
+  textDecoration: "underline" | "line-through";
   textAlignHorizontal: string;
   textAlignVertical: string;
+  // Space after each paragraph and first-line indent, as CSS lengths
+  paragraphSpacing: string;
+  paragraphIndent: string;
+  listSpacing: string;
+  // CSS font-feature-settings, e.g. '"tnum" 1, "liga" 0'
+  fontFeatureSettings: string;
 }>;
 
+/**
+ * How a TEXT node's box fits its text. These are set per node rather than by text styles.
+ */
+export type SimplifiedTextSizing = {
+  // How the text box grows: WIDTH_AND_HEIGHT (no wrapping), HEIGHT (wraps at a fixed width)
+  textAutoResize?: "WIDTH_AND_HEIGHT" | "HEIGHT";
+  // Truncation with an ellipsis, clamped to lineClamp lines when set
+  textOverflow?: "ellipsis";
+  lineClamp?: number;
+};
+
+/**
+ * List type and indentation of a line of a TEXT node, by its 0-based index among the node's lines
+ */
+export type SimplifiedTextLine = {
+  line: number;
+  list?: "ordered" | "unordered";
+  indent?: number;
+};
+
+/**
+ * A styled run of text within a TEXT node. Style values reference globalVars.
+ */
+export type SimplifiedTextSegment = {
+  text: string;
+  textStyle?: string;
+  fills?: string;
+  /**
+   * URL for inline links, or the target node ID for links to other frames
+   */
+  hyperlink?: string;
+};
+
+/**
+ * A run of characters sharing the same style override.
+ */
+export type TextSegment = {
+  characters: string;
+  /**
+   * Override applied to this run, or undefined when it uses the node's base style
+   */
+  override?: TypeStyle;
+};
+
 export function isTextNode(
   n: FigmaDocumentNode,
 ): n is Extract<FigmaDocumentNode, { type: "TEXT" }> {
@@ -31,25 +84,150 @@ export function extractNodeText(n: FigmaDocumentNode) {
   }
 }
 
+/**
+ * Split a TEXT node's characters into runs using characterStyleOverrides and styleOverrideTable.
+ *
+ * @returns Segments in reading order, or undefined if the node has no effective style overrides
+ */
+export function extractTextSegments(n: FigmaDocumentNode): TextSegment[] | undefined {
+  if (!isTextNode(n) || !n.characters) return undefined;
+
+  const overrideIds = n.characterStyleOverrides ?? [];
+  const overrideTable = n.styleOverrideTable ?? {};
+  if (!overrideIds.some((id) => id !== 0 && overrideTable[id])) return undefined;
+
+  const segments: Array<TextSegment & { overrideId: number }> = [];
+  for (let i = 0; i < n.characters.length; i++) {
+    // The overrides array drops trailing zeros, so characters past its end use the base style
+    const id = overrideIds[i] ?? 0;
+    const overrideId = overrideTable[id] ? id : 0;
+    const last = segments[segments.length - 1];
+    if (last && last.overrideId === overrideId) {
+      last.characters += n.characters[i];
+    } else {
+      segments.push({
+        characters: n.characters[i],
+        override: overrideId ? overrideTable[overrideId] : undefined,
+        overrideId,
+      });
+    }
+  }
+
+  return segments.map(({ characters, override }) => ({ characters, override }));
+}
+
+const LIST_TYPES = { ORDERED: "ordered", UNORDERED: "unordered" } as const;
+
+/**
+ * Find the lines of a TEXT node that are list items or indented. Lines are counted by newline
+ * and paragraph separator characters, like Figma does.
+ *
+ * @returns One entry per list item or indented line, or undefined if there are none
+ */
+export function extractTextLines(n: FigmaDocumentNode): SimplifiedTextLine[] | undefined {
+  if (!isTextNode(n) || !n.characters) return undefined;
+
+  const lineTypes = n.lineTypes ?? [];
+  const lineIndentations = n.lineIndentations ?? [];
+  const lineCount = n.characters.split(/\n|\u2029/).length;
+
+  const lines: SimplifiedTextLine[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    const line: SimplifiedTextLine = { line: i };
+    const type = lineTypes[i];
+    if (type === "ORDERED" || type === "UNORDERED") line.list = LIST_TYPES[type];
+    if (lineIndentations[i]) line.indent = lineIndentations[i];
+    if (line.list || line.indent) lines.push(line);
+  }
+  return lines.length ? lines : undefined;
+}
+
+/**
+ * Read how a TEXT node's box grows and truncates
+ */
+export function extractTextSizing(n: FigmaDocumentNode): SimplifiedTextSizing {
+  if (!hasTextStyle(n)) return {};
+  // Text on a path only supports the base type style fields
+  const paragraph: Partial<TypeStyle> = n.style;
+  const truncates =
+    paragraph.textTruncation === "ENDING" || paragraph.textAutoResize === "TRUNCATE";
+
+  const sizing: SimplifiedTextSizing = {};
+  if (paragraph.textAutoResize === "WIDTH_AND_HEIGHT" || paragraph.textAutoResize === "HEIGHT") {
+    sizing.textAutoResize = paragraph.textAutoResize;
+  }
+  if (truncates) {
+    sizing.textOverflow = "ellipsis";
+    if (paragraph.maxLines) sizing.lineClamp = paragraph.maxLines;
+  }
+  return sizing;
+}
+
+/**
+ * A link as a URL, or the target node ID for links to other frames
+ */
+export function formatHyperlink(hyperlink: Hyperlink): string | undefined {
+  return hyperlink.url ?? hyperlink.nodeID;
+}
+
 export function extractTextStyle(n: FigmaDocumentNode) {
   if (hasTextStyle(n)) {
-    const style = n.style;
-    const textStyle: SimplifiedTextStyle = {
-      fontFamily: style.fontFamily,
-      fontWeight: style.fontWeight,
-      fontSize: style.fontSize,
-      lineHeight:
-        "lineHeightPx" in style && style.lineHeightPx && style.fontSize
-          ? `${style.lineHeightPx / style.fontSize}em`
-          : undefined,
-      letterSpacing:
-        style.letterSpacing && style.letterSpacing !== 0 && style.fontSize
-          ? `${(style.letterSpacing / style.fontSize) * 100}%`
-          : undefined,
-      textCase: style.textCase,
-      textAlignHorizontal: style.textAlignHorizontal,
-      textAlignVertical: style.textAlignVertical,
-    };
-    return textStyle;
+    return simplifyTypeStyle(n.style);
   }
 }
+
+/**
+ * Convert a Figma type style to CSS-friendly text style values.
+ */
+export function simplifyTypeStyle(
+  style: Extract<FigmaDocumentNode, { style: any }>["style"],
+): SimplifiedTextStyle {
+  // Text on a path only supports the base type style fields
+  const paragraph: Partial<TypeStyle> = style;
+
+  const textStyle: SimplifiedTextStyle = {
+    fontFamily: style.fontFamily,
+    fontPostScriptName: style.fontPostScriptName ?? undefined,
+    fontWeight: style.fontWeight,
+    fontStyle: style.italic ? "italic" : undefined,
+    fontSize: style.fontSize,
+    lineHeight:
+      "lineHeightPx" in style && style.lineHeightPx && style.fontSize
+        ? `${style.lineHeightPx / style.fontSize}em`
+        : undefined,
+    letterSpacing:
+      style.letterSpacing && style.letterSpacing !== 0 && style.fontSize
+        ? `${(style.letterSpacing / style.fontSize) * 100}%`
+        : undefined,
+    textCase: style.textCase,
+    textDecoration: convertTextDecoration(paragraph.textDecoration),
+    textAlignHorizontal: style.textAlignHorizontal,
+    textAlignVertical: style.textAlignVertical,
+    paragraphSpacing: paragraph.paragraphSpacing ? `${paragraph.paragraphSpacing}px` : undefined,
+    paragraphIndent: paragraph.paragraphIndent ? `${paragraph.paragraphIndent}px` : undefined,
+    listSpacing: paragraph.listSpacing ? `${paragraph.listSpacing}px` : undefined,
+    fontFeatureSettings: formatFontFeatures(style.opentypeFlags),
+  };
+  return textStyle;
+}
+
+function convertTextDecoration(
+  decoration: TypeStyle["textDecoration"],
+): SimplifiedTextStyle["textDecoration"] {
+  switch (decoration) {
+    case "UNDERLINE":
+      return "underline";
+    case "STRIKETHROUGH":
+      return "line-through";
+    default:
+      return undefined;
+  }
+}
+
+// OpenType feature tags are lowercase in CSS
+function formatFontFeatures(flags?: Record<string, number>): string | undefined {
+  const features = Object.entries(flags ?? {}).map(
+    ([tag, value]) => `"${tag.toLowerCase()}" ${value}`,
+  );
+  return features.length ? features.join(", ") : undefined;
+}
@@ -0,0 +1,305 @@
+import type {
+  GetLocalVariablesResponse,
+  GetPublishedVariablesResponse,
+  LocalVariable,
+  RGBA,
+  VariableAlias,
+} from "@figma/rest-api-spec";
+import {
+  convertColor,
+  formatRGBAColor,
+  type CSSHexColor,
+  type CSSRGBAColor,
+} from "~/transformers/style.js";
+
+export type SimplifiedVariableValue = boolean | number | string | CSSHexColor | CSSRGBAColor;
+
+export type SimplifiedVariableModeValue =
+  | SimplifiedVariableValue
+  | {
+      /**
+       * Name of the variable this value is aliased to
+       */
+      alias: string;
+      aliasId: string;
+      /**
+       * Final value after following the alias chain, if it could be resolved
+       */
+      resolvedValue?: SimplifiedVariableValue;
+    };
+
+export interface SimplifiedVariable {
+  id: string;
+  name: string;
+  key: string;
+  collection: string;
+  type: LocalVariable["resolvedType"];
+  description?: string;
+  /**
+   * Values keyed by mode name
+   */
+  valuesByMode: Record<string, SimplifiedVariableModeValue>;
+  codeSyntax?: LocalVariable["codeSyntax"];
+  scopes?: LocalVariable["scopes"];
+  remote?: boolean;
+  published?: boolean;
+}
+
+export interface SimplifiedVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  /**
+   * Mode names keyed by mode ID
+   */
+  modes: Record<string, string>;
+  defaultMode: string;
+  remote?: boolean;
+  variableIds: string[];
+}
+
+export interface SimplifiedVariables {
+  collections: Record<string, SimplifiedVariableCollection>;
+  variables: Record<string, SimplifiedVariable>;
+}
+
+// Guard against alias cycles, which Figma shouldn't allow but deleted variables can produce
+const MAX_ALIAS_DEPTH = 10;
+
+export function isVariableAlias(value: unknown): value is VariableAlias {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    value.type === "VARIABLE_ALIAS" &&
+    "id" in value
+  );
+}
+
+function isRGBA(value: unknown): value is RGBA {
+  return (
+    typeof value === "object" && value !== null && "r" in value && "g" in value && "b" in value
+  );
+}
+
+/**
+ * Convert a raw variable value to a CSS-friendly value. Colors become hex when opaque,
+ * rgba() otherwise; all other primitives pass through unchanged.
+ */
+function simplifyVariableValue(value: boolean | number | string | RGBA): SimplifiedVariableValue {
+  if (isRGBA(value)) {
+    const rgba = { ...value, a: value.a ?? 1 };
+    const { hex, opacity } = convertColor(rgba);
+    return opacity === 1 ? hex : formatRGBAColor(rgba);
+  }
+  return value;
+}
+
+/**
+ * Follow an alias chain until a concrete value is found. Aliases within the same collection resolve
+ * in the same mode; aliases into other collections resolve in that collection's default mode, since
+ * the consumer's mode for it can only be known per node.
+ */
+function resolveAlias(
+  alias: VariableAlias,
+  variables: Record<string, LocalVariable>,
+  collections: GetLocalVariablesResponse["meta"]["variableCollections"],
+  source: { collectionId: string; modeId: string },
+  depth = 0,
+): SimplifiedVariableValue | undefined {
+  if (depth >= MAX_ALIAS_DEPTH) return undefined;
+
+  const target = variables[alias.id];
+  if (!target) return undefined;
+
+  const modeId =
+    target.variableCollectionId === source.collectionId
+      ? source.modeId
+      : collections[target.variableCollectionId]?.defaultModeId;
+  const value = modeId ? target.valuesByMode[modeId] : Object.values(target.valuesByMode)[0];
+  if (value === undefined) return undefined;
+
+  return isVariableAlias(value)
+    ? resolveAlias(
+        value,
+        variables,
+        collections,
+        { collectionId: target.variableCollectionId, modeId: modeId ?? source.modeId },
+        depth + 1,
+      )
+    : simplifyVariableValue(value);
+}
+
+/**
+ * Merge the local and published variables responses into a single simplified format, with mode IDs
+ * replaced by mode names and aliases resolved to the variables they point at.
+ *
+ * Published variables only carry metadata, so they're used to flag which local variables are
+ * published and to fill in library variables that aren't defined locally.
+ */
+export function simplifyVariables(
+  local: GetLocalVariablesResponse["meta"],
+  published?: GetPublishedVariablesResponse["meta"],
+): SimplifiedVariables {
+  const { variables, variableCollections } = local;
+  const publishedIds = new Set(Object.keys(published?.variables ?? {}));
+
+  const collections: SimplifiedVariables["collections"] = Object.fromEntries(
+    Object.entries(variableCollections).map(([id, collection]) => [
+      id,
+      {
+        id,
+        name: collection.name,
+        key: collection.key,
+        modes: Object.fromEntries(collection.modes.map((mode) => [mode.modeId, mode.name])),
+        defaultMode:
+          collection.modes.find((mode) => mode.modeId === collection.defaultModeId)?.name ??
+          collection.defaultModeId,
+        remote: collection.remote || undefined,
+        variableIds: collection.variableIds,
+      },
+    ]),
+  );
+
+  const simplifiedVariables: SimplifiedVariables["variables"] = {};
+  for (const [id, variable] of Object.entries(variables)) {
+    const collection = variableCollections[variable.variableCollectionId];
+    const modeNames = Object.fromEntries(
+      (collection?.modes ?? []).map((mode) => [mode.modeId, mode.name]),
+    );
+
+    const valuesByMode: SimplifiedVariable["valuesByMode"] = {};
+    for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
+      const modeName = modeNames[modeId] ?? modeId;
+      if (isVariableAlias(value)) {
+        valuesByMode[modeName] = {
+          alias: variables[value.id]?.name ?? value.id,
+          aliasId: value.id,
+          resolvedValue: resolveAlias(value, variables, variableCollections, {
+            collectionId: variable.variableCollectionId,
+            modeId,
+          }),
+        };
+      } else {
+        valuesByMode[modeName] = simplifyVariableValue(value);
+      }
+    }
+
+    const hasCodeSyntax = Object.keys(variable.codeSyntax ?? {}).length > 0;
+    simplifiedVariables[id] = {
+      id,
+      name: variable.name,
+      key: variable.key,
+      collection: collection?.name ?? variable.variableCollectionId,
+      type: variable.resolvedType,
+      description: variable.description || undefined,
+      valuesByMode,
+      codeSyntax: hasCodeSyntax ? variable.codeSyntax : undefined,
+      scopes: variable.scopes?.length ? variable.scopes : undefined,
+      remote: variable.remote || undefined,
+      published: publishedIds.has(id) || undefined,
+    };
+  }
+
+  // Published variables that aren't defined locally have no values, but their names are still
+  // useful for matching bound variables to tokens
+  for (const [id, variable] of Object.entries(published?.variables ?? {})) {
+    if (simplifiedVariables[id]) continue;
+    const collection = published?.variableCollections[variable.variableCollectionId];
+    simplifiedVariables[id] = {
+      id,
+      name: variable.name,
+      key: variable.key,
+      collection: collection?.name ?? variable.variableCollectionId,
+      type: variable.resolvedDataType,
+      valuesByMode: {},
+      published: true,
+    };
+  }
+
+  return { collections, variables: simplifiedVariables };
+}
+
+/**
+ * A variable bound to a node property, as stored in globalVars
+ */
+export interface SimplifiedBoundVariable {
+  id: string;
+  name: string;
+  collection?: string;
+  /**
+   * CSS custom property to reference in code, from the variable's WEB code syntax when set
+   */
+  cssVariable: string;
+  /**
+   * Value in the collection's default mode
+   */
+  value?: SimplifiedVariableValue;
+}
+
+/**
+ * Build a CSS custom property reference from a variable name, e.g. "color/primary" -> "var(--color-primary)"
+ */
+export function toCssVariable(name: string): string {
+  const slug = name
+    .trim()
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  return `var(--${slug})`;
+}
+
+/**
+ * Describe a bound variable using the file's variable metadata.
+ *
+ * @returns The simplified variable, or undefined if the variable isn't in the metadata
+ */
+export function simplifyBoundVariable(
+  id: string,
+  metadata: SimplifiedVariables,
+): SimplifiedBoundVariable | undefined {
+  const variable = metadata.variables[id];
+  if (!variable) return undefined;
+
+  const webSyntax = variable.codeSyntax?.WEB;
+  const cssVariable = webSyntax
+    ? webSyntax.startsWith("--")
+      ? `var(${webSyntax})`
+      : webSyntax
+    : toCssVariable(variable.name);
+
+  const collection = Object.values(metadata.collections).find((c) => c.variableIds.includes(id));
+  const defaultValue = collection ? variable.valuesByMode[collection.defaultMode] : undefined;
+  const value =
+    typeof defaultValue === "object" && defaultValue !== null
+      ? defaultValue.resolvedValue
+      : defaultValue;
+
+  return {
+    id,
+    name: variable.name,
+    collection: variable.collection,
+    cssVariable,
+    value,
+  };
+}
+
+/**
+ * Check whether any node in a tree has variables bound to it, so callers can skip fetching
+ * variable metadata for files that don't use variables.
+ */
+export function hasBoundVariables(node: unknown): boolean {
+  if (typeof node !== "object" || node === null) return false;
+  if (
+    "boundVariables" in node &&
+    typeof node.boundVariables === "object" &&
+    node.boundVariables !== null &&
+    Object.keys(node.boundVariables).length > 0
+  ) {
+    return true;
+  }
+  if ("children" in node && Array.isArray(node.children)) {
+    return node.children.some(hasBoundVariables);
+  }
+  return false;
+}
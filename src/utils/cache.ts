@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Logger } from "./logger.js";
+
+/**
+ * A cached Figma API response, tagged with the file version it was fetched at.
+ */
+export type CacheEntry<T = unknown> = {
+  version: string;
+  lastModified: string;
+  value: T;
+};
+
+/**
+ * Storage for raw Figma API responses. Implementations only store and evict entries;
+ * freshness is checked by FigmaService against the file's current version.
+ */
+export interface ResponseCache {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+const DEFAULT_MEMORY_CACHE_MAX_MB = 64;
+
+/**
+ * In-memory cache that evicts the least recently used entries once full.
+ *
+ * Size is measured as the JSON size of each response. Parsed responses take several times that
+ * in memory, so the heap used by the cache is a multiple of maxBytes.
+ */
+export class MemoryCache implements ResponseCache {
+  private readonly entries = new Map<string, { entry: CacheEntry; bytes: number }>();
+  private totalBytes = 0;
+
+  constructor(
+    private readonly maxBytes: number = DEFAULT_MEMORY_CACHE_MAX_MB * 1024 * 1024,
+    private readonly maxEntries: number = Infinity,
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const cached = this.entries.get(key);
+    if (!cached) return undefined;
+
+    // Re-insert so Map iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, cached);
+    return cached.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.delete(key);
+
+    const bytes = Buffer.byteLength(JSON.stringify(entry));
+    // A response that alone exceeds the limit would evict everything else and then itself
+    if (bytes > this.maxBytes) {
+      Logger.log(`[cache] Not caching ${key}: ${bytes} bytes is over the memory cache limit`);
+      return;
+    }
+
+    this.entries.set(key, { entry, bytes });
+    this.totalBytes += bytes;
+
+    while (this.totalBytes > this.maxBytes || this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  private delete(key: string): void {
+    const cached = this.entries.get(key);
+    if (!cached) return;
+    this.entries.delete(key);
+    this.totalBytes -= cached.bytes;
+  }
+}
+
+/**
+ * On-disk cache storing one JSON file per entry, so responses survive server restarts.
+ */
+export class DiskCache implements ResponseCache {
+  constructor(private readonly directory: string) {}
+
+  private getPath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const contents = await fs.promises.readFile(this.getPath(key), "utf-8");
+      return JSON.parse(contents) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(this.getPath(key), JSON.stringify(entry));
+    } catch (error) {
+      // A cache that can't be written shouldn't fail the request
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      Logger.log(`[cache] Failed to write cache entry to ${this.directory}: ${errorMessage}`);
+    }
+  }
+}
+
+let defaultCache: ResponseCache | null | undefined;
+
+/**
+ * Get the shared response cache configured by environment variables.
+ *
+ * - FIGMA_CACHE=false disables caching
+ * - FIGMA_CACHE_DIR stores responses on disk in the given directory
+ * - FIGMA_CACHE_MAX_MB caps the in-memory cache by the JSON size of the cached responses
+ *   (default 64). Parsed responses take several times their JSON size, so expect the process to
+ *   use a few hundred MB for a full cache at the default.
+ * - FIGMA_CACHE_MAX_ENTRIES additionally caps the number of in-memory entries (default unlimited)
+ */
+export function getDefaultCache(): ResponseCache | null {
+  if (defaultCache !== undefined) return defaultCache;
+
+  if (process.env.FIGMA_CACHE === "false") {
+    defaultCache = null;
+  } else if (process.env.FIGMA_CACHE_DIR) {
+    defaultCache = new DiskCache(path.resolve(process.env.FIGMA_CACHE_DIR));
+  } else {
+    const maxMegabytes = parseFloat(process.env.FIGMA_CACHE_MAX_MB ?? "");
+    const maxEntries = parseInt(process.env.FIGMA_CACHE_MAX_ENTRIES ?? "", 10);
+    defaultCache = new MemoryCache(
+      maxMegabytes > 0 ? maxMegabytes * 1024 * 1024 : undefined,
+      maxEntries > 0 ? maxEntries : undefined,
+    );
+  }
+
+  return defaultCache;
+}
@@ -1,9 +1,16 @@
 import { execFile } from "child_process";
 import { promisify } from "util";
 import { Logger } from "./logger.js";
+import { getRateLimiter, type RateLimiter } from "./rate-limiter.js";
 
 const execFileAsync = promisify(execFile);
 
+// Shared with the image download and upload retries
+export const MAX_RETRIES = 3;
+export const BASE_BACKOFF_MS = 500;
+// Longer waits are reported to the user rather than blocking the tool call
+const MAX_RETRY_AFTER_SECONDS = 60;
+
 type RequestOptions = RequestInit & {
   /**
    * Force format of headers to be a record of strings, e.g. { "Authorization": "Bearer 123" }
@@ -18,7 +25,7 @@ export async function fetchWithRetry<T extends { status?: number }>(
   options: RequestOptions = {},
 ): Promise<T> {
   try {
-    const response = await fetch(url, options);
+    const response = await fetchWithRateLimit(url, options);
 
     if (response.status === 429) {
       const retryAfter = response.headers.get("Retry-After");
@@ -80,6 +87,9 @@ export async function fetchWithRetry<T extends { status?: number }>(
     const curlArgs = ["-s", "-S", "--fail-with-body", "-L", ...curlHeaders, url];
 
     try {
+      // The fallback request counts against the same budget as the fetch attempts
+      await getLimiter(options).acquire(new URL(url).pathname);
+
       // Fallback to curl for  corporate networks that have proxies that sometimes block fetch
       Logger.log(`[fetchWithRetry] Executing curl with args: ${JSON.stringify(curlArgs)}`);
       const { stdout, stderr } = await execFileAsync("curl", curlArgs);
@@ -122,6 +132,61 @@ export async function fetchWithRetry<T extends { status?: number }>(
   }
 }
 
+/**
+ * Send a request through the shared per-token rate limiter, retrying 429s that come with a short
+ * Retry-After and 5xx responses with exponential backoff. The last response is returned once
+ * retries run out, so callers can report it.
+ */
+async function fetchWithRateLimit(url: string, options: RequestOptions): Promise<Response> {
+  const limiter = getLimiter(options);
+  const label = new URL(url).pathname;
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire(label);
+    const response = await fetch(url, options);
+
+    if (attempt >= MAX_RETRIES) return response;
+
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get("Retry-After") ?? "", 10);
+      if (isNaN(retryAfter) || retryAfter > MAX_RETRY_AFTER_SECONDS) return response;
+
+      Logger.log(
+        `[fetchWithRetry] Rate limited on ${label}, retrying in ${retryAfter}s (attempt ${attempt + 1}/${MAX_RETRIES})`,
+      );
+      limiter.pause(retryAfter * 1000);
+      continue;
+    }
+
+    if (response.status >= 500) {
+      const delay = getBackoffDelay(attempt);
+      Logger.log(
+        `[fetchWithRetry] ${response.status} from ${label}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`,
+      );
+      await waitBeforeRetry(attempt, delay);
+      continue;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (0 for the first), so concurrent requests
+ * that failed together don't all retry at the same moment.
+ */
+export function getBackoffDelay(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+}
+
+export function waitBeforeRetry(attempt: number, delay = getBackoffDelay(attempt)): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+function getLimiter(options: RequestOptions): RateLimiter {
+  return getRateLimiter(options.headers?.Authorization ?? options.headers?.["X-Figma-Token"]);
+}
+
 function formatDuration(totalSeconds: number): string {
   if (isNaN(totalSeconds) || totalSeconds <= 0) return "a few seconds";
 
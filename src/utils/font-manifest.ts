@@ -0,0 +1,187 @@
+import type { Node as FigmaDocumentNode, Style, TypeStyle } from "@figma/rest-api-spec";
+import { isVisible } from "./common.js";
+import { hasValue } from "./identity.js";
+import { Logger } from "./logger.js";
+
+const GOOGLE_FONTS_METADATA_URL = "https://fonts.google.com/metadata/fonts";
+const GOOGLE_FONTS_TIMEOUT_MS = 10_000;
+// How long a failed catalog request is remembered before it's tried again
+const GOOGLE_FONTS_RETRY_COOLDOWN_MS = 5 * 60_000;
+
+/**
+ * One weight and style of a font family, as it would be declared in an @font-face rule
+ */
+export type FontVariant = {
+  weight: number;
+  style: "normal" | "italic";
+  // Figma's style names for this variant, e.g. "Semi Bold Italic"
+  figmaStyles: string[];
+  postScriptNames: string[];
+  // Number of text layers using the variant, and the characters set in it
+  textNodes: number;
+  characters: number;
+  // Named text styles that set this variant
+  textStyles: string[];
+};
+
+export type FontFamily = {
+  family: string;
+  /**
+   * Whether the family is served by Google Fonts; omitted when the catalog couldn't be loaded
+   */
+  isGoogleFont?: boolean;
+  textNodes: number;
+  variants: FontVariant[];
+};
+
+export type FontManifest = {
+  fonts: FontFamily[];
+  warnings?: string[];
+};
+
+type TextNode = Extract<FigmaDocumentNode, { type: "TEXT" }>;
+
+let googleFontFamilies: Promise<Set<string> | undefined> | undefined;
+let googleFontsFailedAt: number | undefined;
+
+/**
+ * Load the names of all Google Fonts families, once per process. A failure is cached for a few
+ * minutes, so an unreachable catalog doesn't delay every call.
+ *
+ * @returns Lowercased family names, or undefined if the catalog is unreachable
+ */
+export function getGoogleFontFamilies(): Promise<Set<string> | undefined> {
+  if (
+    googleFontsFailedAt !== undefined &&
+    Date.now() - googleFontsFailedAt >= GOOGLE_FONTS_RETRY_COOLDOWN_MS
+  ) {
+    googleFontFamilies = undefined;
+    googleFontsFailedAt = undefined;
+  }
+
+  googleFontFamilies ??= fetch(GOOGLE_FONTS_METADATA_URL, {
+    signal: AbortSignal.timeout(GOOGLE_FONTS_TIMEOUT_MS),
+  })
+    .then(async (response) => {
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      // The metadata endpoint may prefix its JSON with an anti-XSSI guard
+      const body = (await response.text()).replace(/^\)\]\}'\s*/, "");
+      const metadata = JSON.parse(body) as { familyMetadataList?: Array<{ family: string }> };
+      return new Set((metadata.familyMetadataList ?? []).map(({ family }) => family.toLowerCase()));
+    })
+    .catch((error) => {
+      Logger.log(
+        `Could not load Google Fonts catalog: ${error instanceof Error ? error.message : error}`,
+      );
+      googleFontsFailedAt = Date.now();
+      return undefined;
+    });
+  return googleFontFamilies;
+}
+
+/**
+ * List the fonts used by visible text under the given nodes.
+ *
+ * @param nodes - Root nodes to scan
+ * @param styles - Style metadata from the file response, used to name text styles
+ * @param googleFonts - Lowercased Google Fonts family names, if available
+ */
+export function buildFontManifest(
+  nodes: FigmaDocumentNode[],
+  styles: Record<string, Style> = {},
+  googleFonts?: Set<string>,
+): FontManifest {
+  const families = new Map<string, FontFamily & { variantMap: Map<string, FontVariant> }>();
+
+  const record = (style: Partial<TypeStyle>, characters: number, textStyle?: string) => {
+    if (!style.fontFamily) return;
+
+    let family = families.get(style.fontFamily);
+    if (!family) {
+      family = { family: style.fontFamily, textNodes: 0, variants: [], variantMap: new Map() };
+      families.set(style.fontFamily, family);
+    }
+
+    const weight = style.fontWeight ?? 400;
+    const fontStyle = style.italic ? "italic" : "normal";
+    const key = `${weight}-${fontStyle}`;
+    let variant = family.variantMap.get(key);
+    if (!variant) {
+      variant = {
+        weight,
+        style: fontStyle,
+        figmaStyles: [],
+        postScriptNames: [],
+        textNodes: 0,
+        characters: 0,
+        textStyles: [],
+      };
+      family.variantMap.set(key, variant);
+    }
+
+    variant.characters += characters;
+    addUnique(variant.figmaStyles, style.fontStyle);
+    addUnique(variant.postScriptNames, style.fontPostScriptName ?? undefined);
+    addUnique(variant.textStyles, textStyle);
+    return { family, variant };
+  };
+
+  const visitText = (node: TextNode) => {
+    const styleId = hasValue("styles", node)
+      ? (node.styles as Record<string, string>).text
+      : undefined;
+    const textStyle = styleId ? styles[styleId]?.name : undefined;
+
+    // Count characters per style override, so each node contributes once to every font it uses
+    const runs = new Map<number, number>();
+    const overrideIds = node.characterStyleOverrides ?? [];
+    const overrideTable = node.styleOverrideTable ?? {};
+    for (let i = 0; i < node.characters.length; i++) {
+      const id = overrideTable[overrideIds[i]] ? overrideIds[i] : 0;
+      runs.set(id, (runs.get(id) ?? 0) + 1);
+    }
+    if (runs.size === 0) runs.set(0, 0);
+
+    const used = new Set<FontFamily>();
+    const usedVariants = new Set<FontVariant>();
+    for (const [id, characters] of runs) {
+      const style = id ? { ...node.style, ...overrideTable[id] } : node.style;
+      // Overrides don't carry a text style, so only the base style is attributed to it
+      const match = record(style, characters, id ? undefined : textStyle);
+      if (!match) continue;
+      used.add(match.family);
+      usedVariants.add(match.variant);
+    }
+    used.forEach((family) => family.textNodes++);
+    usedVariants.forEach((variant) => variant.textNodes++);
+  };
+
+  const visit = (node: FigmaDocumentNode) => {
+    if (!isVisible(node)) return;
+    if (node.type === "TEXT") visitText(node);
+    if (hasValue("children", node)) node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  const fonts = [...families.values()]
+    .map(({ family, textNodes, variantMap }) => ({
+      family,
+      ...(googleFonts ? { isGoogleFont: googleFonts.has(family.toLowerCase()) } : {}),
+      textNodes,
+      variants: [...variantMap.values()].sort(
+        (a, b) => a.weight - b.weight || a.style.localeCompare(b.style),
+      ),
+    }))
+    .sort((a, b) => b.textNodes - a.textNodes || a.family.localeCompare(b.family));
+
+  return {
+    fonts,
+    ...(googleFonts
+      ? {}
+      : { warnings: ["Could not load the Google Fonts catalog, so isGoogleFont is omitted"] }),
+  };
+}
+
+function addUnique(values: string[], value: string | undefined) {
+  if (value && !values.includes(value)) values.push(value);
+}
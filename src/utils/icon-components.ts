@@ -0,0 +1,282 @@
+import { optimizeSvg } from "./svg-processing.js";
+
+export type IconFramework = "react" | "vue" | "svg";
+
+export type IconComponent = {
+  nodeId: string;
+  name: string;
+  componentName: string;
+  /**
+   * False when the icon uses several colors, so the color prop has no effect
+   */
+  recolorable: boolean;
+  /**
+   * Generated source keyed by file name
+   */
+  files: Record<string, string>;
+};
+
+type ParsedSvg = {
+  viewBox: string;
+  width: number;
+  height: number;
+  rootAttributes: string;
+  content: string;
+};
+
+/**
+ * Generate icon components from SVG markup rendered by Figma.
+ *
+ * The SVG is optimized and single-color icons are switched to currentColor, so the generated
+ * color prop recolors them through CSS `color`. Components are named from the layer name,
+ * e.g. "icons/arrow-left" -> "ArrowLeftIcon".
+ */
+export function generateIconComponents(
+  nodeId: string,
+  layerName: string,
+  svg: string,
+  frameworks: IconFramework[],
+  componentName: string = toComponentName(layerName),
+): IconComponent {
+  const optimized = optimizeSvg(svg, { currentColor: true });
+  const parsed = parseSvg(scopeIds(optimized.svg, toKebabCase(componentName)));
+  const recolorable = optimized.svg.includes("currentColor");
+
+  const files: Record<string, string> = {};
+  for (const framework of frameworks) {
+    switch (framework) {
+      case "react":
+        files[`${componentName}.tsx`] = generateReactComponent(componentName, parsed);
+        break;
+      case "vue":
+        files[`${componentName}.vue`] = generateVueComponent(parsed);
+        break;
+      case "svg":
+        files[`${toKebabCase(componentName)}.ts`] = generateSvgFunction(componentName, parsed);
+        break;
+    }
+  }
+
+  return { nodeId, name: layerName, componentName, recolorable, files };
+}
+
+/**
+ * Build a PascalCase component name ending in "Icon" from a Figma layer name
+ */
+export function toComponentName(layerName: string): string {
+  // Layer names are often paths like "icons/24/arrow-left"; the last segment names the icon
+  const segments = layerName.split("/").filter((segment) => /[a-zA-Z]/.test(segment));
+  const baseName = segments.length ? segments[segments.length - 1] : layerName;
+
+  let name = baseName
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+
+  if (!name || /^\d/.test(name)) name = `Icon${name}`;
+  return name.endsWith("Icon") ? name : `${name}Icon`;
+}
+
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .toLowerCase();
+}
+
+function parseSvg(svg: string): ParsedSvg {
+  const match = svg.match(/<svg\b([^>]*)>([\s\S]*)<\/svg\s*>/i);
+  if (!match) {
+    throw new Error("Rendered node is not a valid SVG");
+  }
+
+  const [, attributes, content] = match;
+  const getAttribute = (name: string) => attributes.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+  const width = parseFloat(getAttribute("width") ?? "") || 24;
+  const height = parseFloat(getAttribute("height") ?? "") || 24;
+
+  // Size, viewBox and namespace are set by the generated components themselves
+  const rootAttributes = attributes
+    .replace(/\s(width|height|viewBox|xmlns|xmlns:xlink)="[^"]*"/g, "")
+    .trim();
+
+  return {
+    viewBox: getAttribute("viewBox") ?? `0 0 ${width} ${height}`,
+    width,
+    height,
+    rootAttributes,
+    content,
+  };
+}
+
+/**
+ * Prefix IDs with the icon name, so several icons inlined on one page don't share clip paths
+ */
+function scopeIds(svg: string, prefix: string): string {
+  return svg
+    .replace(/\sid="([^"]*)"/g, ` id="${prefix}-$1"`)
+    .replace(/url\(#([^)]+)\)/g, `url(#${prefix}-$1)`)
+    .replace(/href="#([^"]+)"/g, `href="#${prefix}-$1"`);
+}
+
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: "className",
+  "xlink:href": "xlinkHref",
+  "xml:space": "xmlSpace",
+};
+
+/**
+ * Convert SVG markup to JSX: attribute names become camelCase and style strings become objects.
+ * Braces in text, such as CSS in a `<style>` element, would start JSX expressions, so they're
+ * written as character references.
+ */
+function toJsx(markup: string): string {
+  return markup.replace(/(<[a-zA-Z][^>]*>)|[{}]/g, (match, tag?: string) =>
+    tag ? toJsxAttributes(tag) : escapeBraces(match),
+  );
+}
+
+function toJsxAttributes(attributes: string): string {
+  return attributes
+    .replace(/\sstyle="([^"]*)"/g, (_match, style: string) => ` style={${styleToObject(style)}}`)
+    .replace(/="([^"]*)"/g, (_match, value: string) => `="${escapeBraces(value)}"`)
+    .replace(/(^|\s)([a-zA-Z]+(?:[-:][a-zA-Z]+)+|class)=/g, (_match, space, name: string) => {
+      const jsxName =
+        JSX_ATTRIBUTE_NAMES[name] ?? name.replace(/[-:]([a-z])/g, (_m, c) => c.toUpperCase());
+      return `${space}${jsxName}=`;
+    });
+}
+
+function escapeBraces(value: string): string {
+  return value.replace(/[{}]/g, (brace) => (brace === "{" ? "&#123;" : "&#125;"));
+}
+
+function styleToObject(style: string): string {
+  const entries = style
+    .split(";")
+    .map((declaration) => declaration.split(":").map((part) => part.trim()))
+    .filter(([property, value]) => property && value)
+    .map(([property, value]) => {
+      const key = property.replace(/-([a-z])/g, (_m, c) => c.toUpperCase());
+      return `${key}: ${JSON.stringify(value)}`;
+    });
+  return `{ ${entries.join(", ")} }`;
+}
+
+/**
+ * Put each element on its own line, indented by nesting depth
+ */
+function indent(markup: string, spaces: number): string {
+  let depth = 0;
+  return markup
+    .replace(/></g, ">\n<")
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("</")) depth--;
+      const indented = " ".repeat(spaces + Math.max(depth, 0) * 2) + line;
+      if (/^<[^/!?][^>]*[^/]>$/.test(line) && !line.includes("</")) depth++;
+      return indented;
+    })
+    .join("\n");
+}
+
+function generateReactComponent(componentName: string, svg: ParsedSvg): string {
+  const rootAttributes = svg.rootAttributes ? `\n      ${toJsxAttributes(svg.rootAttributes)}` : "";
+
+  return `import type { SVGProps } from "react";
+
+export interface ${componentName}Props extends SVGProps<SVGSVGElement> {
+  size?: number | string;
+  color?: string;
+  title?: string;
+}
+
+export function ${componentName}({
+  size = ${svg.width},
+  color = "currentColor",
+  title,
+  ...props
+}: ${componentName}Props) {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="${svg.viewBox}"
+      xmlns="http://www.w3.org/2000/svg"${rootAttributes}
+      color={color}
+      role={title ? "img" : undefined}
+      aria-hidden={title ? undefined : true}
+      {...props}
+    >
+      {title ? <title>{title}</title> : null}
+${indent(toJsx(svg.content), 6)}
+    </svg>
+  );
+}
+
+export default ${componentName};
+`;
+}
+
+function generateVueComponent(svg: ParsedSvg): string {
+  const rootAttributes = svg.rootAttributes ? `\n    ${svg.rootAttributes}` : "";
+
+  return `<script setup lang="ts">
+withDefaults(defineProps<{ size?: number | string; color?: string; title?: string }>(), {
+  size: ${svg.width},
+  color: "currentColor",
+  title: undefined,
+});
+</script>
+
+<template>
+  <svg
+    :width="size"
+    :height="size"
+    viewBox="${svg.viewBox}"
+    xmlns="http://www.w3.org/2000/svg"${rootAttributes}
+    :color="color"
+    :role="title ? 'img' : undefined"
+    :aria-hidden="title ? undefined : 'true'"
+  >
+    <title v-if="title">{{ title }}</title>
+${indent(svg.content, 4)}
+  </svg>
+</template>
+`;
+}
+
+function generateSvgFunction(componentName: string, svg: ParsedSvg): string {
+  const functionName = componentName[0].toLowerCase() + componentName.slice(1);
+  const rootAttributes = svg.rootAttributes ? ` ${svg.rootAttributes}` : "";
+  const content = svg.content.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${");
+
+  return `export interface ${componentName}Options {
+  size?: number | string;
+  color?: string;
+  title?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => \`&#\${char.charCodeAt(0)};\`);
+
+/**
+ * Inline SVG markup for the ${componentName.replace(/Icon$/, "")} icon
+ */
+export function ${functionName}({
+  size = ${svg.width},
+  color = "currentColor",
+  title,
+}: ${componentName}Options = {}): string {
+  const accessibility = title
+    ? \`role="img"><title>\${escapeHtml(title)}</title>\`
+    : \`aria-hidden="true">\`;
+  return \`<svg width="\${escapeHtml(String(size))}" height="\${escapeHtml(String(size))}" viewBox="${svg.viewBox}" xmlns="http://www.w3.org/2000/svg"${rootAttributes} color="\${escapeHtml(color)}" \${accessibility}${content}</svg>\`;
+}
+
+export default ${functionName};
+`;
+}
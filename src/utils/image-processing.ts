@@ -1,103 +1,277 @@
-import fs from "fs";
 import path from "path";
 import sharp from "sharp";
-import type { Transform } from "@figma/rest-api-spec";
+import type { ImageFilters, Transform } from "@figma/rest-api-spec";
+import type { ImageStorage, StoredImage } from "./storage.js";
+import { MAX_RETRIES, waitBeforeRetry } from "./fetch-with-retry.js";
+import { optimizeSvg } from "./svg-processing.js";
+import { generateImagePlaceholder, type ImagePlaceholder } from "./placeholders.js";
+import {
+  applyImageFilters,
+  applyImageTransform,
+  hasImageFilters,
+  rotateImage,
+  type CropRegion,
+} from "./image-transform.js";
+
+export type ImageOutputOptions = {
+  /**
+   * Quality for lossy formats (JPEG, WebP, AVIF), 1-100
+   */
+  quality?: number;
+  /**
+   * Pixel widths to generate responsive variants at, described with `w` descriptors in the srcset
+   */
+  responsiveWidths?: number[];
+  /**
+   * Pixel densities to generate variants for, e.g. [1, 2, 3]. The highest density is the
+   * full-resolution image and lower densities are scaled down proportionally.
+   */
+  densities?: number[];
+  /**
+   * Replace the color of single-color SVGs with currentColor
+   */
+  svgCurrentColor?: boolean;
+  /**
+   * Compute a blurhash, dominant color and tiny preview for raster images
+   */
+  placeholders?: boolean;
+};
+
+type RasterFormat = "png" | "jpeg" | "webp" | "avif";
+
+const RASTER_FORMATS: Record<string, RasterFormat> = {
+  ".png": "png",
+  ".jpg": "jpeg",
+  ".jpeg": "jpeg",
+  ".webp": "webp",
+  ".avif": "avif",
+};
+
+const DEFAULT_QUALITY = 80;
 
 /**
- * Apply crop transform to an image based on Figma's transformation matrix
- * @param imagePath - Path to the original image file
- * @param cropTransform - Figma transform matrix [[scaleX, skewX, translateX], [skewY, scaleY, translateY]]
- * @returns Promise<string> - Path to the cropped image
+ * How an image fill is drawn in Figma, beyond its crop transform
  */
-export async function applyCropTransform(
-  imagePath: string,
-  cropTransform: Transform,
-): Promise<string> {
-  const { Logger } = await import("./logger.js");
+export type ImagePaintOptions = {
+  /**
+   * Width / height of the node the image fills, for stretched images
+   */
+  containerAspectRatio?: number;
+  /**
+   * Counter-clockwise rotation in degrees
+   */
+  rotation?: number;
+  filters?: ImageFilters;
+};
 
-  try {
-    // Extract transform values
-    const scaleX = cropTransform[0]?.[0] ?? 1;
-    const skewX = cropTransform[0]?.[1] ?? 0;
-    const translateX = cropTransform[0]?.[2] ?? 0;
-    const skewY = cropTransform[1]?.[0] ?? 0;
-    const scaleY = cropTransform[1]?.[1] ?? 1;
-    const translateY = cropTransform[1]?.[2] ?? 0;
-
-    // Load the image and get metadata
-    const image = sharp(imagePath);
-    const metadata = await image.metadata();
+/**
+ * Encode an image in the given format, optionally scaling it down to a width.
+ */
+async function encodeImage(
+  input: Buffer,
+  format: RasterFormat,
+  quality: number,
+  width?: number,
+): Promise<Buffer> {
+  let pipeline = sharp(input);
+  if (width) {
+    pipeline = pipeline.resize({ width, withoutEnlargement: true });
+  }
 
-    if (!metadata.width || !metadata.height) {
-      throw new Error(`Could not get image dimensions for ${imagePath}`);
-    }
+  switch (format) {
+    case "jpeg":
+      // JPEG has no alpha channel, so composite transparent areas onto white rather than black
+      pipeline = pipeline.flatten({ background: "#ffffff" }).jpeg({ quality, mozjpeg: true });
+      break;
+    case "webp":
+      pipeline = pipeline.webp({ quality });
+      break;
+    case "avif":
+      pipeline = pipeline.avif({ quality });
+      break;
+    case "png":
+      pipeline = pipeline.png();
+      break;
+  }
 
-    const { width, height } = metadata;
+  return pipeline.toBuffer();
+}
 
-    // Calculate crop region based on transform matrix
-    // Figma's transform matrix represents how the image is positioned within its container
-    // We need to extract the visible portion based on the scaling and translation
+/**
+ * Work out which responsive variants to generate for an image of the given width.
+ * Widths are never scaled up, so requested widths above the image width collapse into it.
+ */
+function getVariantTargets(
+  fullWidth: number,
+  { responsiveWidths, densities }: ImageOutputOptions,
+): Array<{ width: number; descriptor: string }> {
+  if (responsiveWidths?.length) {
+    const widths = [...new Set(responsiveWidths.map((w) => Math.min(Math.round(w), fullWidth)))];
+    return widths.sort((a, b) => a - b).map((width) => ({ width, descriptor: `${width}w` }));
+  }
 
-    // The transform matrix defines the visible area as:
-    // - scaleX/scaleY: how much of the original image is visible (0-1)
-    // - translateX/translateY: offset of the visible area (0-1, relative to image size)
+  if (densities?.length) {
+    const maxDensity = Math.max(...densities);
+    return [...new Set(densities)]
+      .sort((a, b) => a - b)
+      .map((density) => ({
+        width: Math.round((fullWidth * density) / maxDensity),
+        descriptor: `${density}x`,
+      }));
+  }
 
-    const cropLeft = Math.max(0, Math.round(translateX * width));
-    const cropTop = Math.max(0, Math.round(translateY * height));
-    const cropWidth = Math.min(width - cropLeft, Math.round(scaleX * width));
-    const cropHeight = Math.min(height - cropTop, Math.round(scaleY * height));
+  return [];
+}
 
-    // Validate crop dimensions
-    if (cropWidth <= 0 || cropHeight <= 0) {
-      Logger.log(`Invalid crop dimensions for ${imagePath}, using original image`);
-      return imagePath;
+/**
+ * Thrown when an image was downloaded and processed but couldn't be stored, so callers can tell
+ * upload failures apart from download and render failures.
+ */
+export class ImageUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageUploadError";
+  }
+}
+
+// Attempts for transient failures (network errors, throttling and 5xx responses)
+const MAX_ATTEMPTS = MAX_RETRIES + 1;
+
+// Node system error codes for failures that may clear up on their own
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "EBUSY",
+  "EAGAIN",
+  "EMFILE",
+  "ENFILE",
+]);
+
+// AWS SDK error names for throttling and timeouts, which don't always carry a status code
+const TRANSIENT_ERROR_NAMES = new Set([
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "SlowDown",
+  "ThrottlingException",
+  "TooManyRequestsException",
+]);
+
+/**
+ * Check whether a storage error is worth retrying. Rejected credentials, missing buckets or
+ * directories and other client errors fail the same way every time, so they aren't.
+ */
+function isTransientStorageError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const details = error as Error & {
+    code?: string;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  if (details.$retryable) return true;
+  if (details.code && TRANSIENT_ERROR_CODES.has(details.code)) return true;
+  if (TRANSIENT_ERROR_NAMES.has(error.name)) return true;
+
+  const status = details.$metadata?.httpStatusCode;
+  return status === 408 || status === 429 || (status !== undefined && status >= 500);
+}
+
+/**
+ * Store a processed image, retrying transient failures and wrapping the last one with the storage
+ * backend's name.
+ */
+async function storeImage(
+  storage: ImageStorage,
+  data: Buffer,
+  fileName: string,
+  processingLog: string[],
+): Promise<StoredImage> {
+  const { Logger } = await import("./logger.js");
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const stored = await storage.store(data, fileName);
+      if (stored.skipped) {
+        processingLog.push(`Already in ${storage.name} storage as ${stored.key}, skipped upload`);
+      }
+      if (attempt > 1) {
+        processingLog.push(`Stored ${fileName} after ${attempt} attempts`);
+      }
+      Logger.log(`Stored image with ${storage.name} storage: ${stored.key}`);
+      return stored;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const transient = isTransientStorageError(error);
+      if (transient && attempt < MAX_ATTEMPTS) {
+        Logger.log(
+          `Failed to store ${fileName} with ${storage.name} storage, retrying (attempt ${attempt}/${MAX_ATTEMPTS}): ${message}`,
+        );
+        await waitBeforeRetry(attempt - 1);
+        continue;
+      }
+      Logger.error(`Failed to store image with ${storage.name} storage:`, error);
+      throw new ImageUploadError(
+        transient
+          ? `${storage.name} storage failed after ${MAX_ATTEMPTS} attempts: ${message}`
+          : `${storage.name} storage failed: ${message}`,
+      );
     }
+  }
+}
 
-    // Overwrite the original file with the cropped version
-    const tempPath = imagePath + ".tmp";
-
-    // Apply crop transformation to temporary file first
-    await image
-      .extract({
-        left: cropLeft,
-        top: cropTop,
-        width: cropWidth,
-        height: cropHeight,
-      })
-      .toFile(tempPath);
-
-    // Replace original file with cropped version
-    fs.renameSync(tempPath, imagePath);
-
-    Logger.log(`Cropped image saved (overwritten): ${imagePath}`);
-    Logger.log(
-      `Crop region: ${cropLeft}, ${cropTop}, ${cropWidth}x${cropHeight} from ${width}x${height}`,
-    );
+/**
+ * Download an image into memory. Network errors, rate limits and server errors are retried;
+ * other error responses (e.g. an expired render URL) fail straight away.
+ */
+export async function fetchImage(imageUrl: string): Promise<Buffer> {
+  const { Logger } = await import("./logger.js");
 
-    return imagePath;
-  } catch (error) {
-    Logger.error(`Error cropping image ${imagePath}:`, error);
-    // Return original path if cropping fails
-    return imagePath;
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let failure: string;
+    try {
+      response = await fetch(imageUrl);
+      if (response.ok) {
+        return Buffer.from(await response.arrayBuffer());
+      }
+      failure = `${response.status} ${response.statusText}`;
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // No response or an interrupted body means a network error
+    const retryable = !response || response.ok || response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= MAX_ATTEMPTS) {
+      throw new Error(`Failed to download image: ${failure}`);
+    }
+    Logger.log(`Image download failed (${failure}), retrying (attempt ${attempt}/${MAX_ATTEMPTS})`);
+    await waitBeforeRetry(attempt - 1);
   }
 }
 
 /**
- * Get image dimensions from a file
- * @param imagePath - Path to the image file
+ * Get image dimensions
+ * @param image - The image data or a path to the image file
  * @returns Promise<{width: number, height: number}>
  */
-export async function getImageDimensions(imagePath: string): Promise<{
+export async function getImageDimensions(image: Buffer | string): Promise<{
   width: number;
   height: number;
 }> {
   const { Logger } = await import("./logger.js");
 
   try {
-    const metadata = await sharp(imagePath).metadata();
+    const metadata = await sharp(image).metadata();
 
     if (!metadata.width || !metadata.height) {
-      throw new Error(`Could not get image dimensions for ${imagePath}`);
+      throw new Error("Could not get image dimensions");
     }
 
     return {
@@ -105,95 +279,165 @@ export async function getImageDimensions(imagePath: string): Promise<{
       height: metadata.height,
     };
   } catch (error) {
-    Logger.error(`Error getting image dimensions for ${imagePath}:`, error);
+    Logger.error("Error getting image dimensions:", error);
     // Return default dimensions if reading fails
     return { width: 1000, height: 1000 };
   }
 }
 
 export type ImageProcessingResult = {
-  filePath: string;
+  fileName: string;
+  /**
+   * Where the stored image can be referenced from, as returned by the storage backend
+   */
+  url: string;
+  storageKey: string;
+  /**
+   * True when the storage backend already had an identical image, so nothing was uploaded
+   */
+  skipped?: boolean;
   originalDimensions: { width: number; height: number };
   finalDimensions: { width: number; height: number };
   wasCropped: boolean;
-  cropRegion?: { left: number; top: number; width: number; height: number };
+  cropRegion?: CropRegion;
   cssVariables?: string;
   processingLog: string[];
-  s3Url?: string;
-  s3Key?: string;
+  /**
+   * Responsive variants, smallest first, when widths or densities were requested
+   */
+  variants?: Array<{ width: number; descriptor: string; url: string }>;
+  /**
+   * Ready-to-use srcset attribute value built from the variants
+   */
+  srcset?: string;
+  placeholder?: ImagePlaceholder;
 };
 
 /**
- * Enhanced image download with post-processing and S3 upload
- * @param fileName - The filename to save as
- * @param localPath - The local temporary path (typically /tmp)
+ * Outcome for a single requested image:
+ * - uploaded: downloaded, processed and stored
+ * - skipped: processed, but the storage backend already had it
+ * - render_failed: Figma didn't render the node or image fill, or downloading or processing failed
+ * - upload_failed: processed, but storing it failed
+ */
+export type ImageDownloadStatus = "uploaded" | "skipped" | "render_failed" | "upload_failed";
+
+export type ImageDownloadResult = {
+  fileName: string;
+  nodeId?: string;
+  imageRef?: string;
+  status: ImageDownloadStatus;
+  /**
+   * Why the image failed, for failed statuses
+   */
+  reason?: string;
+  image?: ImageProcessingResult;
+};
+
+/**
+ * Download an image, post-process it in memory and store it. Nothing is written to local disk
+ * unless the storage backend itself writes files.
+ * @param fileName - The filename to store as; its extension selects the output format
  * @param imageUrl - Image URL from Figma
  * @param needsCropping - Whether to apply crop transform
- * @param cropTransform - Transform matrix for cropping
+ * @param cropTransform - Figma's image transform, applied in full (crop, scale, rotation, flips)
  * @param requiresImageDimensions - Whether to generate dimension metadata
- * @param uploadToS3 - Whether to upload to S3 after processing (always true)
- * @param s3Config - S3 configuration (required)
- * @returns Promise<ImageProcessingResult> - Detailed processing information including S3 URL
+ * @param storage - Where to store the processed image
+ * @param outputOptions - Quality, responsive variants and placeholders for raster output formats
+ * @param paintOptions - Rotation, filters and container proportions of the image fill
+ * @returns Promise<ImageProcessingResult> - Detailed processing information including the stored URL
  */
 export async function downloadAndProcessImage(
   fileName: string,
-  localPath: string,
   imageUrl: string,
   needsCropping: boolean = false,
-  cropTransform?: Transform,
+  cropTransform: Transform | undefined,
   requiresImageDimensions: boolean = false,
-  uploadToS3: boolean = true,
-  s3Config?: import("./s3-upload.js").S3Config,
+  storage: ImageStorage,
+  outputOptions: ImageOutputOptions = {},
+  paintOptions: ImagePaintOptions = {},
 ): Promise<ImageProcessingResult> {
   const { Logger } = await import("./logger.js");
   const processingLog: string[] = [];
 
-  // First download the original image
-  const { downloadFigmaImage } = await import("./common.js");
-  const originalPath = await downloadFigmaImage(fileName, localPath, imageUrl);
-  Logger.log(`Downloaded original image: ${originalPath}`);
+  const original = await fetchImage(imageUrl);
+  Logger.log(`Downloaded ${fileName} (${original.length} bytes)`);
+
+  // PDFs are passed through untouched, since sharp can't read them
+  const extension = path.extname(fileName).toLowerCase();
+  const isPdf = extension === ".pdf";
+  const rasterFormat = RASTER_FORMATS[extension];
 
   // Get original dimensions before any processing
-  const originalDimensions = await getImageDimensions(originalPath);
+  const originalDimensions = isPdf ? { width: 0, height: 0 } : await getImageDimensions(original);
   Logger.log(`Original dimensions: ${originalDimensions.width}x${originalDimensions.height}`);
 
-  let finalPath = originalPath;
+  let image = original;
   let wasCropped = false;
-  let cropRegion: { left: number; top: number; width: number; height: number } | undefined;
-
-  // Apply crop transform if needed
-  if (needsCropping && cropTransform) {
-    Logger.log("Applying crop transform...");
-
-    // Extract crop region info before applying transform
-    const scaleX = cropTransform[0]?.[0] ?? 1;
-    const scaleY = cropTransform[1]?.[1] ?? 1;
-    const translateX = cropTransform[0]?.[2] ?? 0;
-    const translateY = cropTransform[1]?.[2] ?? 0;
-
-    const cropLeft = Math.max(0, Math.round(translateX * originalDimensions.width));
-    const cropTop = Math.max(0, Math.round(translateY * originalDimensions.height));
-    const cropWidth = Math.min(
-      originalDimensions.width - cropLeft,
-      Math.round(scaleX * originalDimensions.width),
-    );
-    const cropHeight = Math.min(
-      originalDimensions.height - cropTop,
-      Math.round(scaleY * originalDimensions.height),
-    );
+  let cropRegion: CropRegion | undefined;
+
+  // Draw raster fills the way Figma shows them: rotation, then the image transform, then filters
+  if (!isPdf && extension !== ".svg") {
+    const { rotation, filters, containerAspectRatio } = paintOptions;
+    try {
+      if (rotation) {
+        image = await rotateImage(image, rotation);
+        processingLog.push(`Rotated ${rotation}°`);
+      }
 
-    if (cropWidth > 0 && cropHeight > 0) {
-      cropRegion = { left: cropLeft, top: cropTop, width: cropWidth, height: cropHeight };
-      finalPath = await applyCropTransform(originalPath, cropTransform);
-      wasCropped = true;
-      Logger.log(`Cropped to region: ${cropLeft}, ${cropTop}, ${cropWidth}x${cropHeight}`);
-    } else {
-      Logger.log("Invalid crop dimensions, keeping original image");
+      if (needsCropping && cropTransform) {
+        Logger.log("Applying image transform...");
+        const transformed = await applyImageTransform(image, cropTransform, {
+          containerAspectRatio,
+        });
+        if (transformed) {
+          image = transformed.image;
+          cropRegion = transformed.cropRegion;
+          wasCropped = true;
+          Logger.log(
+            `Visible region: ${cropRegion.left}, ${cropRegion.top}, ${cropRegion.width}x${cropRegion.height}, output ${transformed.width}x${transformed.height}`,
+          );
+        } else {
+          Logger.log("Invalid image transform, using original image");
+        }
+      }
+
+      if (hasImageFilters(filters)) {
+        image = await applyImageFilters(image, filters);
+        processingLog.push(`Applied filters: ${Object.keys(filters).join(", ")}`);
+      }
+    } catch (error) {
+      Logger.error(`Error transforming ${fileName}:`, error);
+      processingLog.push(
+        "Could not apply the image transform or filters, stored the original image",
+      );
+      image = original;
+      cropRegion = undefined;
+      wasCropped = false;
     }
   }
 
+  // Sanitize and minify SVGs before they're stored or inlined
+  if (extension === ".svg") {
+    const result = optimizeSvg(image.toString("utf-8"), {
+      currentColor: outputOptions.svgCurrentColor,
+    });
+    image = Buffer.from(result.svg);
+    processingLog.push(...result.log);
+  }
+
+  // Convert to the requested format, e.g. a PNG render or JPEG fill saved as .webp
+  const quality = outputOptions.quality ?? DEFAULT_QUALITY;
+  if (rasterFormat && rasterFormat !== "png") {
+    const bytesBefore = image.length;
+    image = await encodeImage(image, rasterFormat, quality);
+    processingLog.push(
+      `Converted to ${rasterFormat} at quality ${quality}: ${bytesBefore} -> ${image.length} bytes`,
+    );
+  }
+
   // Get final dimensions after processing
-  const finalDimensions = await getImageDimensions(finalPath);
+  const finalDimensions = isPdf ? { width: 0, height: 0 } : await getImageDimensions(image);
   Logger.log(`Final dimensions: ${finalDimensions.width}x${finalDimensions.height}`);
 
   // Generate CSS variables if required (for TILE mode)
@@ -202,43 +446,54 @@ export async function downloadAndProcessImage(
     cssVariables = generateImageCSSVariables(finalDimensions);
   }
 
-  // Upload to S3 (always enabled)
-  let s3Url: string | undefined;
-  let s3Key: string | undefined;
-  if (uploadToS3 && s3Config) {
+  let placeholder: ImagePlaceholder | undefined;
+  if (outputOptions.placeholders && rasterFormat) {
     try {
-      const { uploadFileToS3 } = await import("./s3-upload.js");
-      const s3Result = await uploadFileToS3(finalPath, s3Config);
-      s3Url = s3Result.url;
-      s3Key = s3Result.key;
-      Logger.log(`Uploaded to S3: ${s3Url}`);
-      
-      // Clean up local file after successful S3 upload
-      try {
-        const fs = await import("fs");
-        fs.unlinkSync(finalPath);
-        Logger.log(`Cleaned up local file: ${finalPath}`);
-      } catch (cleanupError) {
-        Logger.log(`Note: Could not delete local file ${finalPath} (may not exist)`);
-      }
+      placeholder = await generateImagePlaceholder(image);
     } catch (error) {
-      Logger.error("Failed to upload to S3:", error);
-      throw new Error(`S3 upload failed: ${error instanceof Error ? error.message : String(error)}`);
+      // Placeholders are a nice-to-have, so don't fail the image over them
+      Logger.error(`Failed to generate placeholder for ${fileName}:`, error);
+      processingLog.push("Could not generate placeholder");
+    }
+  }
+
+  const stored = await storeImage(storage, image, fileName, processingLog);
+
+  // Generate responsive variants from the processed image; the full-width variant is the image itself
+  let variants: ImageProcessingResult["variants"];
+  if (rasterFormat) {
+    const baseName = path.basename(fileName, path.extname(fileName));
+    for (const { width, descriptor } of getVariantTargets(finalDimensions.width, outputOptions)) {
+      let url = stored.url;
+      if (width !== finalDimensions.width) {
+        const variant = await encodeImage(image, rasterFormat, quality, width);
+        const variantName = `${baseName}-${descriptor}${path.extname(fileName)}`;
+        url = (await storeImage(storage, variant, variantName, processingLog)).url;
+      }
+      (variants ??= []).push({ width, descriptor, url });
+    }
+    if (variants) {
+      processingLog.push(
+        `Generated ${variants.length} responsive variants: ${variants.map((v) => v.descriptor).join(", ")}`,
+      );
     }
-  } else if (uploadToS3 && !s3Config) {
-    throw new Error("S3 upload requested but S3 configuration not provided");
   }
+  const srcset = variants?.map((v) => `${v.url} ${v.descriptor}`).join(", ");
 
   return {
-    filePath: s3Url || finalPath, // Return S3 URL if uploaded, otherwise local path
+    fileName,
+    url: stored.url,
+    storageKey: stored.key,
+    skipped: stored.skipped,
     originalDimensions,
     finalDimensions,
     wasCropped,
     cropRegion,
     cssVariables,
     processingLog,
-    s3Url,
-    s3Key,
+    variants,
+    srcset,
+    placeholder,
   };
 }
 
@@ -0,0 +1,393 @@
+import sharp from "sharp";
+import type { ImageFilters, Transform } from "@figma/rest-api-spec";
+
+export type CropRegion = { left: number; top: number; width: number; height: number };
+
+export type ImageTransformOptions = {
+  /**
+   * Width divided by height of the node the image fills. Without it, the output keeps the
+   * image's own proportions along the container edges, which is only right when the image
+   * isn't stretched.
+   */
+  containerAspectRatio?: number;
+};
+
+export type ImageTransformResult = {
+  image: Buffer;
+  width: number;
+  height: number;
+  /**
+   * Bounding box of the visible area within the original image
+   */
+  cropRegion: CropRegion;
+};
+
+type Point = { x: number; y: number };
+type Matrix2 = [[number, number], [number, number]];
+
+// Transformed images are sized to keep the source resolution, within this limit
+const MAX_OUTPUT_SIZE = 8192;
+const EPSILON = 1e-6;
+const ANGLE_TOLERANCE = 1e-3;
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+/**
+ * Resolve Figma's image transform into pixel space.
+ *
+ * The transform maps the container's normalized coordinates (0-1 across the node) to the image's
+ * normalized coordinates: [[a, b, tx], [c, d, ty]] sends the container point (u, v) to the image
+ * point (a*u + b*v + tx, c*u + d*v + ty). Scaling by the image size gives the container's top and
+ * left edges in image pixels, which set the output size.
+ */
+export function resolveImageTransform(
+  { width, height }: { width: number; height: number },
+  transform: Transform,
+  { containerAspectRatio }: ImageTransformOptions = {},
+): { width: number; height: number; matrix: Matrix2; origin: Point } | undefined {
+  const [[a = 1, b = 0, tx = 0] = [], [c = 0, d = 1, ty = 0] = []] = transform;
+
+  const edgeU = { x: a * width, y: c * height };
+  const edgeV = { x: b * width, y: d * height };
+  let outputWidth = Math.hypot(edgeU.x, edgeU.y);
+  let outputHeight =
+    containerAspectRatio && containerAspectRatio > 0
+      ? outputWidth / containerAspectRatio
+      : Math.hypot(edgeV.x, edgeV.y);
+
+  const largestSide = Math.max(outputWidth, outputHeight);
+  if (largestSide > MAX_OUTPUT_SIZE) {
+    outputWidth = (outputWidth * MAX_OUTPUT_SIZE) / largestSide;
+    outputHeight = (outputHeight * MAX_OUTPUT_SIZE) / largestSide;
+  }
+  outputWidth = Math.round(outputWidth);
+  outputHeight = Math.round(outputHeight);
+  if (outputWidth < 1 || outputHeight < 1) return undefined;
+
+  // Output pixel -> image pixel
+  const matrix: Matrix2 = [
+    [edgeU.x / outputWidth, edgeV.x / outputHeight],
+    [edgeU.y / outputWidth, edgeV.y / outputHeight],
+  ];
+  if (Math.abs(determinant(matrix)) < EPSILON) return undefined;
+
+  return {
+    width: outputWidth,
+    height: outputHeight,
+    matrix,
+    origin: { x: tx * width, y: ty * height },
+  };
+}
+
+/**
+ * Get the bounding box of the area of an image left visible by Figma's image transform, clipped
+ * to the image
+ * @param dimensions - Size of the original image
+ * @param transform - Figma transform matrix [[a, b, tx], [c, d, ty]]
+ * @returns The visible region, or undefined if the transform leaves nothing of the image visible
+ */
+export function getCropRegion(
+  dimensions: { width: number; height: number },
+  transform: Transform,
+  options: ImageTransformOptions = {},
+): CropRegion | undefined {
+  const resolved = resolveImageTransform(dimensions, transform, options);
+  if (!resolved) return undefined;
+
+  const { matrix, origin } = resolved;
+  const corners = [
+    [0, 0],
+    [resolved.width, 0],
+    [0, resolved.height],
+    [resolved.width, resolved.height],
+  ].map(([x, y]) => ({
+    x: matrix[0][0] * x + matrix[0][1] * y + origin.x,
+    y: matrix[1][0] * x + matrix[1][1] * y + origin.y,
+  }));
+
+  const left = Math.max(0, Math.round(Math.min(...corners.map((p) => p.x))));
+  const top = Math.max(0, Math.round(Math.min(...corners.map((p) => p.y))));
+  const right = Math.min(dimensions.width, Math.round(Math.max(...corners.map((p) => p.x))));
+  const bottom = Math.min(dimensions.height, Math.round(Math.max(...corners.map((p) => p.y))));
+
+  if (right <= left || bottom <= top) return undefined;
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Render an image fill's visible area as Figma draws it, by applying the full image transform:
+ * crops, scaling, stretching, rotation and flips. Areas of the container the image doesn't cover
+ * come out transparent.
+ *
+ * The inverse of the transform is split with a singular value decomposition into a flip, a
+ * rotation, a non-uniform resize and a second rotation, each done with sharp. The container's
+ * top-left corner is tracked through every step and the container area is cut out at the end.
+ *
+ * @param image - The original image
+ * @param transform - Figma transform matrix [[a, b, tx], [c, d, ty]]
+ * @returns The transformed image, or undefined if the transform isn't usable
+ */
+export async function applyImageTransform(
+  image: Buffer,
+  transform: Transform,
+  options: ImageTransformOptions = {},
+): Promise<ImageTransformResult | undefined> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error("Could not get image dimensions");
+  }
+
+  const resolved = resolveImageTransform({ width, height }, transform, options);
+  const cropRegion = getCropRegion({ width, height }, transform, options);
+  if (!resolved || !cropRegion) return undefined;
+
+  let current = await sharp(image).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  let origin = resolved.origin;
+
+  // Image pixel -> output pixel
+  let inverse = invert(resolved.matrix);
+  const flipped = determinant(inverse) < 0;
+  if (flipped) {
+    // Flipping first leaves a rotation and scale; F is its own inverse, so M = (M·F)·F
+    inverse = multiply(inverse, [
+      [1, 0],
+      [0, -1],
+    ]);
+    current = await runRaw(current, (pipeline) => pipeline.flip());
+    origin = { x: origin.x, y: current.info.height - origin.y };
+  }
+
+  const { rotateBefore, scaleX, scaleY, rotateAfter } = decompose(inverse);
+  // Stretching a thin sliver of the image can call for far more pixels than the output has, so
+  // the resize is capped too and the cut-out is scaled back up to the output size at the end
+  let reduction = 1;
+
+  for (const step of [
+    { kind: "rotate", angle: rotateBefore },
+    { kind: "scale", scaleX, scaleY },
+    { kind: "rotate", angle: rotateAfter },
+  ] as const) {
+    const before = { width: current.info.width, height: current.info.height };
+
+    if (step.kind === "rotate") {
+      const degrees = normalizeDegrees((step.angle * 180) / Math.PI);
+      if (Math.abs(degrees) < EPSILON) continue;
+      current = await runRaw(current, (pipeline) =>
+        pipeline.rotate(degrees, { background: TRANSPARENT }),
+      );
+      origin = rotatePoint(origin, step.angle, before, current.info);
+    } else {
+      if (Math.abs(step.scaleX - 1) < EPSILON && Math.abs(step.scaleY - 1) < EPSILON) continue;
+      const largestSide = Math.max(before.width * step.scaleX, before.height * step.scaleY);
+      reduction = Math.min(1, MAX_OUTPUT_SIZE / largestSide);
+      const targetWidth = Math.max(1, Math.round(before.width * step.scaleX * reduction));
+      const targetHeight = Math.max(1, Math.round(before.height * step.scaleY * reduction));
+      current = await runRaw(current, (pipeline) =>
+        pipeline.resize(targetWidth, targetHeight, { fit: "fill" }),
+      );
+      origin = {
+        x: (origin.x * current.info.width) / before.width,
+        y: (origin.y * current.info.height) / before.height,
+      };
+    }
+  }
+
+  // The container now sits axis-aligned at `origin`; cut it out, padding what the image doesn't cover
+  const left = Math.round(origin.x);
+  const top = Math.round(origin.y);
+  const cutWidth = Math.max(1, Math.round(resolved.width * reduction));
+  const cutHeight = Math.max(1, Math.round(resolved.height * reduction));
+  const padding = {
+    left: Math.max(0, -left),
+    top: Math.max(0, -top),
+    right: Math.max(0, left + cutWidth - current.info.width),
+    bottom: Math.max(0, top + cutHeight - current.info.height),
+  };
+  if (padding.left || padding.top || padding.right || padding.bottom) {
+    current = await runRaw(current, (pipeline) =>
+      pipeline.extend({ ...padding, background: TRANSPARENT }),
+    );
+  }
+
+  current = await runRaw(current, (pipeline) =>
+    pipeline.extract({
+      left: left + padding.left,
+      top: top + padding.top,
+      width: cutWidth,
+      height: cutHeight,
+    }),
+  );
+  if (cutWidth !== resolved.width || cutHeight !== resolved.height) {
+    current = await runRaw(current, (pipeline) =>
+      pipeline.resize(resolved.width, resolved.height, { fit: "fill" }),
+    );
+  }
+  const output = await sharp(current.data, { raw: current.info }).png().toBuffer();
+
+  return { image: output, width: resolved.width, height: resolved.height, cropRegion };
+}
+
+/**
+ * Rotate an image fill by its paint rotation. Figma measures rotation counter-clockwise, while
+ * sharp rotates clockwise. Quarter turns are lossless; other angles leave transparent corners.
+ */
+export async function rotateImage(image: Buffer, rotation: number): Promise<Buffer> {
+  const degrees = normalizeDegrees(-rotation);
+  if (Math.abs(degrees) < EPSILON) return image;
+  return sharp(image).ensureAlpha().rotate(degrees, { background: TRANSPARENT }).png().toBuffer();
+}
+
+/**
+ * Whether any of Figma's image filters change the image
+ */
+export function hasImageFilters(filters: ImageFilters | undefined): filters is ImageFilters {
+  return !!filters && Object.values(filters).some((value) => !!value);
+}
+
+/**
+ * Approximate Figma's image filters. Every filter ranges from -1 to 1, with 0 leaving the image
+ * unchanged:
+ * - exposure: brightness in stops, from a quarter to four times as bright
+ * - contrast: steepens or flattens colors around mid-grey
+ * - saturation: -1 is greyscale, 1 is twice as saturated
+ * - temperature: warmer (more red, less blue) or cooler
+ * - tint: towards magenta (less green) or green
+ * - highlights and shadows: brighten or darken the light and dark tones, leaving black and white
+ */
+export async function applyImageFilters(image: Buffer, filters: ImageFilters): Promise<Buffer> {
+  const {
+    exposure = 0,
+    contrast = 0,
+    saturation = 0,
+    temperature = 0,
+    tint = 0,
+    highlights = 0,
+    shadows = 0,
+  } = filters;
+
+  let input = image;
+  if (highlights || shadows) {
+    input = await applyToneCurve(image, highlights, shadows);
+  }
+
+  // Exposure, contrast, temperature and tint are all linear, so they combine into one pass
+  const gain = Math.pow(2, exposure * 2) * (1 + contrast);
+  const offset = -128 * contrast;
+  const channelGains = [1 + 0.2 * temperature, 1 - 0.2 * tint, 1 - 0.2 * temperature];
+
+  let pipeline = sharp(input).linear(
+    channelGains.map((channelGain) => channelGain * gain),
+    channelGains.map((channelGain) => channelGain * offset),
+  );
+  if (saturation) {
+    pipeline = pipeline.modulate({ saturation: 1 + saturation });
+  }
+  return pipeline.png().toBuffer();
+}
+
+async function applyToneCurve(image: Buffer, highlights: number, shadows: number) {
+  const lookup = new Uint8Array(256);
+  for (let value = 0; value < 256; value++) {
+    const x = value / 255;
+    const y = x + shadows * x * (1 - x) ** 2 + highlights * x ** 2 * (1 - x);
+    lookup[value] = Math.round(Math.min(1, Math.max(0, y)) * 255);
+  }
+
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lookup[data[i]];
+    data[i + 1] = lookup[data[i + 1]];
+    data[i + 2] = lookup[data[i + 2]];
+  }
+  return sharp(data, { raw: info }).png().toBuffer();
+}
+
+type RawImage = { data: Buffer; info: sharp.OutputInfo };
+
+async function runRaw(
+  image: RawImage,
+  operation: (pipeline: sharp.Sharp) => sharp.Sharp,
+): Promise<RawImage> {
+  const { width, height, channels } = image.info;
+  return operation(sharp(image.data, { raw: { width, height, channels } }))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Follow a point through a rotation about the image center onto the enlarged canvas, which
+ * keeps the rotated image centered
+ */
+function rotatePoint(
+  point: Point,
+  angle: number,
+  before: { width: number; height: number },
+  after: { width: number; height: number },
+): Point {
+  const dx = point.x - before.width / 2;
+  const dy = point.y - before.height / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: cos * dx - sin * dy + after.width / 2,
+    y: sin * dx + cos * dy + after.height / 2,
+  };
+}
+
+/**
+ * Split a 2x2 matrix with a positive determinant into rotate(after) · scale · rotate(before).
+ * In image coordinates (y pointing down), a positive angle turns clockwise like sharp's rotate.
+ */
+function decompose([[a, b], [c, d]]: Matrix2) {
+  const e = (a + d) / 2;
+  const f = (a - d) / 2;
+  const g = (c + b) / 2;
+  const h = (c - b) / 2;
+  const q = Math.hypot(e, h);
+  const r = Math.hypot(f, g);
+  // Without a non-uniform scale, the split between the two rotations is arbitrary; do it in one
+  const a1 = r < EPSILON ? -Math.atan2(h, e) : Math.atan2(g, f);
+  const a2 = Math.atan2(h, e);
+
+  return {
+    rotateBefore: (a2 - a1) / 2,
+    scaleX: q + r,
+    scaleY: q - r,
+    rotateAfter: (a2 + a1) / 2,
+  };
+}
+
+/**
+ * Bring an angle into [0, 360), snapping floating point noise to whole quarter turns so sharp
+ * can rotate them losslessly
+ */
+function normalizeDegrees(degrees: number): number {
+  const normalized = ((degrees % 360) + 360) % 360;
+  const quarterTurns = Math.round(normalized / 90);
+  if (Math.abs(normalized - quarterTurns * 90) < ANGLE_TOLERANCE) {
+    return (quarterTurns * 90) % 360;
+  }
+  return normalized;
+}
+
+function determinant([[a, b], [c, d]]: Matrix2): number {
+  return a * d - b * c;
+}
+
+function invert(matrix: Matrix2): Matrix2 {
+  const [[a, b], [c, d]] = matrix;
+  const det = determinant(matrix);
+  return [
+    [d / det, -b / det],
+    [-c / det, a / det],
+  ];
+}
+
+function multiply([[a, b], [c, d]]: Matrix2, [[e, f], [g, h]]: Matrix2): Matrix2 {
+  return [
+    [a * e + b * g, a * f + b * h],
+    [c * e + d * g, c * f + d * h],
+  ];
+}
@@ -0,0 +1,143 @@
+import sharp from "sharp";
+
+export type ImagePlaceholder = {
+  blurhash: string;
+  /**
+   * Most common color, as a hex value for a background-color placeholder
+   */
+  dominantColor: string;
+  /**
+   * Tiny preview image as a base64 data URI, meant to be scaled up with a blur filter
+   */
+  preview: string;
+};
+
+const PREVIEW_WIDTH = 16;
+// Blurhash only keeps a handful of frequency components, so a small sample is enough
+const BLURHASH_SAMPLE_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+/**
+ * Compute low-quality placeholders for progressive loading of a raster image.
+ */
+export async function generateImagePlaceholder(image: Buffer | string): Promise<ImagePlaceholder> {
+  const [{ data, info }, stats, preview] = await Promise.all([
+    sharp(image)
+      .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true }),
+    sharp(image).stats(),
+    sharp(image).resize({ width: PREVIEW_WIDTH, withoutEnlargement: true }).png().toBuffer(),
+  ]);
+
+  const { r, g, b } = stats.dominant;
+
+  return {
+    blurhash: encodeBlurhash(
+      data,
+      info.width,
+      info.height,
+      BLURHASH_COMPONENTS.x,
+      BLURHASH_COMPONENTS.y,
+    ),
+    dominantColor: `#${[r, g, b]
+      .map((channel) => channel.toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase()}`,
+    preview: `data:image/png;base64,${preview.toString("base64")}`,
+  };
+}
+
+const BASE83_DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+function encodeBase83(value: number, length: number): string {
+  let result = "";
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83_DIGITS[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encode RGBA pixels as a blurhash string, following the reference implementation at
+ * https://github.com/woltapp/blurhash
+ */
+export function encodeBlurhash(
+  pixels: Uint8Array | Buffer,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number,
+): string {
+  const factors: Array<[number, number, number]> = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let i = 0; i < width; i++) {
+        for (let j = 0; j < height; j++) {
+          const basis =
+            normalisation *
+            Math.cos((Math.PI * x * i) / width) *
+            Math.cos((Math.PI * y * j) / height);
+          const offset = 4 * (i + j * width);
+          r += basis * sRGBToLinear(pixels[offset]);
+          g += basis * sRGBToLinear(pixels[offset + 1]);
+          b += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encodeBase83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+    const quantisedMaximum = Math.floor(
+      Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5))),
+    );
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encodeBase83(quantisedMaximum, 1);
+  } else {
+    hash += encodeBase83(0, 1);
+  }
+
+  const [dcR, dcG, dcB] = dc;
+  hash += encodeBase83((linearToSRGB(dcR) << 16) + (linearToSRGB(dcG) << 8) + linearToSRGB(dcB), 4);
+
+  for (const component of ac) {
+    const [quantR, quantG, quantB] = component.map((value) =>
+      Math.floor(
+        Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))),
+      ),
+    );
+    hash += encodeBase83(quantR * 19 * 19 + quantG * 19 + quantB, 2);
+  }
+
+  return hash;
+}
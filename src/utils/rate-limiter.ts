@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { Logger } from "./logger.js";
+
+/**
+ * Token-bucket scheduler that queues requests once the bucket is empty. Requests are released in
+ * the order they were queued, and a 429 can pause the whole bucket until Figma's Retry-After elapses.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private lastUsed = Date.now();
+  private pausedUntil = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly name: string,
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Milliseconds since the bucket was last used, or 0 while it has queued requests, is paused or
+   * hasn't refilled yet. An idle bucket is indistinguishable from a new one.
+   */
+  get idleTime(): number {
+    this.refill();
+    const now = Date.now();
+    if (this.queue.length > 0 || this.tokens < this.capacity || now < this.pausedUntil) return 0;
+    return now - this.lastUsed;
+  }
+
+  /**
+   * Wait until a request may be sent.
+   */
+  async acquire(label: string): Promise<void> {
+    const queuedAt = Date.now();
+    this.lastUsed = queuedAt;
+    const ticket = new Promise<void>((resolve) => this.queue.push(resolve));
+    this.drain();
+
+    const wasQueued = this.queue.length > 0;
+    if (wasQueued) {
+      Logger.log(`[rateLimiter:${this.name}] Queued ${label} (queue depth: ${this.queue.length})`);
+    }
+
+    await ticket;
+
+    if (wasQueued) {
+      const waited = Date.now() - queuedAt;
+      Logger.log(
+        `[rateLimiter:${this.name}] Released ${label} after waiting ${waited}ms (queue depth: ${this.queue.length})`,
+      );
+    }
+  }
+
+  /**
+   * Hold all queued and future requests for this bucket, e.g. after a 429 with Retry-After.
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    Logger.log(`[rateLimiter:${this.name}] Paused for ${ms}ms`);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    this.refill();
+    const now = Date.now();
+    while (this.queue.length > 0 && this.tokens >= 1 && now >= this.pausedUntil) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+
+    if (this.queue.length > 0) {
+      const refillDelay = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      const delay = Math.max(this.pausedUntil - now, refillDelay, 0);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.ceil(delay));
+    }
+  }
+}
+
+// Buckets unused for this long are dropped, so a long-running server doesn't keep one per token
+const IDLE_LIMITER_TTL_MS = 10 * 60 * 1000;
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the shared rate limiter for an access token, so concurrent sessions using the same token
+ * share one budget.
+ *
+ * The budget is configured with FIGMA_RATE_LIMIT_PER_MINUTE (default 60) and
+ * FIGMA_RATE_LIMIT_BURST (default 10).
+ */
+export function getRateLimiter(token: string | undefined): RateLimiter {
+  // Tokens are only kept as a hash so they never end up in logs
+  const key = createHash("sha256")
+    .update(token ?? "anonymous")
+    .digest("hex")
+    .slice(0, 8);
+
+  for (const [existingKey, existing] of limiters) {
+    if (existingKey !== key && existing.idleTime >= IDLE_LIMITER_TTL_MS) {
+      limiters.delete(existingKey);
+    }
+  }
+
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    const perMinute = parseFloat(process.env.FIGMA_RATE_LIMIT_PER_MINUTE ?? "");
+    const burst = parseInt(process.env.FIGMA_RATE_LIMIT_BURST ?? "", 10);
+    limiter = new RateLimiter(key, burst > 0 ? burst : 10, (perMinute > 0 ? perMinute : 60) / 60);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
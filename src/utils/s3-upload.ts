@@ -1,8 +1,25 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import fs from "fs";
-import { randomUUID } from "crypto";
+import { createHash } from "crypto";
 import path from "path";
+import { getContentType, mapWithConcurrency } from "./common.js";
+import { MAX_RETRIES, waitBeforeRetry } from "./fetch-with-retry.js";
+
+// Keys are derived from content, so an object never changes once uploaded
+const DEFAULT_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// S3 requires parts of at least 5 MB, except for the last one
+const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+const MULTIPART_CONCURRENCY = 4;
 
 export type S3Config = {
   region: string;
@@ -10,63 +27,200 @@ export type S3Config = {
   accessKeyId: string;
   secretAccessKey: string;
   transferAcceleration?: boolean;
+  /**
+   * Custom endpoint for S3-compatible services, e.g. "http://localhost:9000" for MinIO or
+   * "https://<account>.r2.cloudflarestorage.com" for R2
+   */
+  endpoint?: string;
+  /**
+   * Address objects as <endpoint>/<bucket>/<key> instead of <bucket>.<endpoint>/<key>
+   */
+  forcePathStyle?: boolean;
+  /**
+   * Base URL objects are publicly served from, when it differs from the upload endpoint
+   * (e.g. an R2 public bucket domain or a CDN)
+   */
+  publicUrl?: string;
+  /**
+   * Prefix for object keys, e.g. "figma/<fileKey>/"
+   */
+  keyPrefix?: string;
+  cacheControl?: string;
 };
 
 export type S3UploadResult = {
   url: string;
   key: string;
+  /**
+   * True when an identical object already existed and the upload was skipped
+   */
+  skipped?: boolean;
 };
 
 /**
- * Upload a local file to S3
- * @param filePath - The local file path to upload
+ * Build a content-addressed object key: the prefix, a hash of the file contents, and the file's
+ * extension. Uploading the same image twice always produces the same key.
+ */
+export function getContentAddressedKey(
+  fileBuffer: Buffer,
+  fileName: string,
+  keyPrefix: string = "",
+): string {
+  const hash = createHash("sha256").update(fileBuffer).digest("hex").slice(0, 32);
+  const extension = path.extname(fileName).toLowerCase();
+  const prefix = keyPrefix && !keyPrefix.endsWith("/") ? `${keyPrefix}/` : keyPrefix;
+  return `${prefix.replace(/^\/+/, "")}${hash}${extension}`;
+}
+
+/**
+ * Check whether an object already exists. Any error other than a clear "not found" is treated as
+ * missing, so buckets that deny HeadObject still get uploads.
+ */
+async function objectExists(s3Client: S3Client, bucketName: string, key: string) {
+  try {
+    await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upload a large object in parts, so a single slow or failed request doesn't restart the whole
+ * upload. Parts are sent a few at a time to bound memory and connection use, and each is retried
+ * on its own before the upload is given up.
+ */
+async function uploadMultipart(
+  s3Client: S3Client,
+  data: Buffer,
+  params: { Bucket: string; Key: string; ContentType: string; CacheControl: string },
+): Promise<void> {
+  const { UploadId } = await s3Client.send(
+    new CreateMultipartUploadCommand({ ...params, ACL: "public-read" }),
+  );
+  if (!UploadId) {
+    throw new Error("S3 did not return an upload ID for the multipart upload");
+  }
+
+  // Set once any part fails for good, so parts still queued don't keep uploading
+  let aborted = false;
+
+  const uploadPart = async (index: number) => {
+    for (let attempt = 0; ; attempt++) {
+      if (aborted) {
+        throw new Error("Multipart upload aborted after another part failed");
+      }
+      try {
+        const { ETag } = await s3Client.send(
+          new UploadPartCommand({
+            Bucket: params.Bucket,
+            Key: params.Key,
+            UploadId,
+            PartNumber: index + 1,
+            Body: data.subarray(index * MULTIPART_PART_SIZE, (index + 1) * MULTIPART_PART_SIZE),
+          }),
+        );
+        return { ETag, PartNumber: index + 1 };
+      } catch (error) {
+        if (attempt >= MAX_RETRIES || aborted) {
+          aborted = true;
+          throw error;
+        }
+        await waitBeforeRetry(attempt);
+      }
+    }
+  };
+
+  try {
+    const partCount = Math.ceil(data.length / MULTIPART_PART_SIZE);
+    const parts = await mapWithConcurrency(
+      Array.from({ length: partCount }, (_, index) => index),
+      MULTIPART_CONCURRENCY,
+      uploadPart,
+    );
+
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: params.Bucket,
+        Key: params.Key,
+        UploadId,
+        MultipartUpload: { Parts: parts },
+      }),
+    );
+  } catch (error) {
+    aborted = true;
+    await s3Client
+      .send(new AbortMultipartUploadCommand({ Bucket: params.Bucket, Key: params.Key, UploadId }))
+      .catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Upload image data to S3
+ * @param data - The image data to upload
+ * @param fileName - File name, used for the content type and key extension
  * @param config - S3 configuration
  * @returns Promise<S3UploadResult> - The S3 URL and key
  */
-export async function uploadFileToS3(
-  filePath: string,
+export async function uploadToS3(
+  data: Buffer,
+  fileName: string,
   config: S3Config,
 ): Promise<S3UploadResult> {
   const { Logger } = await import("./logger.js");
 
   try {
-    // Read file from disk
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
-    }
-
-    const fileBuffer = fs.readFileSync(filePath);
-    const fileExtension = path.extname(filePath).toLowerCase();
-    
-    // Determine content type based on file extension
-    let contentType = "application/octet-stream";
-    if (fileExtension === ".png") {
-      contentType = "image/png";
-    } else if (fileExtension === ".svg") {
-      contentType = "image/svg+xml";
-    } else if (fileExtension === ".jpg" || fileExtension === ".jpeg") {
-      contentType = "image/jpeg";
-    }
-
-    // Generate unique key (using UUID to avoid collisions)
-    const fileKey = randomUUID();
+    const contentType = getContentType(fileName);
+    const fileKey = getContentAddressedKey(data, fileName, config.keyPrefix);
+    const cacheControl = config.cacheControl ?? DEFAULT_CACHE_CONTROL;
 
     // Create S3 client
     const s3Client = new S3Client({
       region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
       credentials: {
         accessKeyId: config.accessKeyId,
         secretAccessKey: config.secretAccessKey,
       },
     });
 
+    const s3Url = getS3PublicUrl({
+      key: fileKey,
+      bucketName: config.bucketName,
+      region: config.region,
+      transferAcceleration: config.transferAcceleration,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      publicUrl: config.publicUrl,
+    });
+
+    if (await objectExists(s3Client, config.bucketName, fileKey)) {
+      Logger.log(`Skipping upload of ${fileName}, already in S3: ${s3Url}`);
+      return { url: s3Url, key: fileKey, skipped: true };
+    }
+
+    if (data.length > MULTIPART_THRESHOLD) {
+      Logger.log(`Uploading ${fileName} to S3 in parts (${data.length} bytes)...`);
+      await uploadMultipart(s3Client, data, {
+        Bucket: config.bucketName,
+        Key: fileKey,
+        ContentType: contentType,
+        CacheControl: cacheControl,
+      });
+      Logger.log(`Successfully uploaded to S3: ${s3Url}`);
+      return { url: s3Url, key: fileKey };
+    }
+
     // Create presigned URL for upload with public-read ACL (matching ai-motion-designer)
     const command = new PutObjectCommand({
       Bucket: config.bucketName,
       Key: fileKey,
       ACL: "public-read",
       ContentType: contentType,
-      ContentLength: fileBuffer.length,
+      ContentLength: data.length,
+      CacheControl: cacheControl,
     });
 
     const presignedUrl = await getSignedUrl(s3Client, command, {
@@ -74,13 +228,14 @@ export async function uploadFileToS3(
     });
 
     // Upload file using presigned URL
-    Logger.log(`Uploading ${filePath} to S3 (${fileBuffer.length} bytes)...`);
+    Logger.log(`Uploading ${fileName} to S3 (${data.length} bytes)...`);
     const uploadResponse = await fetch(presignedUrl, {
       method: "PUT",
-      body: fileBuffer,
+      body: data,
       headers: {
         "Content-Type": contentType,
-        "Content-Length": fileBuffer.length.toString(),
+        "Content-Length": data.length.toString(),
+        "Cache-Control": cacheControl,
       },
     });
 
@@ -90,14 +245,6 @@ export async function uploadFileToS3(
       );
     }
 
-    // Generate public URL
-    const s3Url = getS3PublicUrl({
-      key: fileKey,
-      bucketName: config.bucketName,
-      region: config.region,
-      transferAcceleration: config.transferAcceleration,
-    });
-
     Logger.log(`Successfully uploaded to S3: ${s3Url}`);
 
     return {
@@ -105,8 +252,7 @@ export async function uploadFileToS3(
       key: fileKey,
     };
   } catch (error) {
-    const { Logger } = await import("./logger.js");
-    Logger.error(`Failed to upload ${filePath} to S3:`, error);
+    Logger.error(`Failed to upload ${fileName} to S3:`, error);
     throw error;
   }
 }
@@ -119,12 +265,26 @@ function getS3PublicUrl({
   bucketName,
   region,
   transferAcceleration = false,
+  endpoint,
+  forcePathStyle = false,
+  publicUrl,
 }: {
   key: string;
   bucketName: string;
   region: string;
   transferAcceleration?: boolean;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  publicUrl?: string;
 }): string {
+  if (publicUrl) {
+    return `${publicUrl.replace(/\/+$/, "")}/${key}`;
+  }
+  if (endpoint) {
+    const url = new URL(endpoint);
+    const base = `${url.protocol}//${forcePathStyle ? url.host : `${bucketName}.${url.host}`}`;
+    return forcePathStyle ? `${base}/${bucketName}/${key}` : `${base}/${key}`;
+  }
   if (transferAcceleration) {
     return `https://${bucketName}.s3-accelerate.amazonaws.com/${key}`;
   }
@@ -132,7 +292,9 @@ function getS3PublicUrl({
 }
 
 /**
- * Get S3 configuration from environment variables
+ * Get S3 configuration from environment variables. AWS_ENDPOINT_URL, AWS_S3_FORCE_PATH_STYLE and
+ * AWS_S3_PUBLIC_URL configure S3-compatible services such as MinIO or R2. AWS_S3_KEY_PREFIX may
+ * contain "{fileKey}", which is replaced with the Figma file key of each request.
  */
 export function getS3ConfigFromEnv(): S3Config | null {
   const region = process.env.AWS_REGION;
@@ -140,6 +302,11 @@ export function getS3ConfigFromEnv(): S3Config | null {
   const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
   const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
   const transferAcceleration = process.env.AWS_TRANSFER_ACCELERATION === "true";
+  const endpoint = process.env.AWS_ENDPOINT_URL || undefined;
+  const forcePathStyle = process.env.AWS_S3_FORCE_PATH_STYLE === "true";
+  const publicUrl = process.env.AWS_S3_PUBLIC_URL || undefined;
+  const keyPrefix = process.env.AWS_S3_KEY_PREFIX || undefined;
+  const cacheControl = process.env.AWS_S3_CACHE_CONTROL || undefined;
 
   if (!region || !bucketName || !accessKeyId || !secretAccessKey) {
     return null;
@@ -151,5 +318,10 @@ export function getS3ConfigFromEnv(): S3Config | null {
     accessKeyId,
     secretAccessKey,
     transferAcceleration,
+    endpoint,
+    forcePathStyle,
+    publicUrl,
+    keyPrefix,
+    cacheControl,
   };
 }
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Logger } from "./logger.js";
+import { getContentType } from "./common.js";
+import { getS3ConfigFromEnv, uploadToS3, type S3Config } from "./s3-upload.js";
+
+export type StoredImage = {
+  /**
+   * Where the image can be referenced from: a public URL, a path relative to the project
+   * directory, or a data URI
+   */
+  url: string;
+  key: string;
+  /**
+   * True when an identical image was already stored and nothing was written
+   */
+  skipped?: boolean;
+};
+
+/**
+ * Destination for processed images. Implementations receive the image data and decide how the
+ * result is referenced in generated code.
+ */
+export interface ImageStorage {
+  readonly name: string;
+  store(data: Buffer, fileName: string): Promise<StoredImage>;
+}
+
+/**
+ * Upload images to AWS S3 or any S3-compatible service (MinIO, Cloudflare R2, ...).
+ */
+export class S3Storage implements ImageStorage {
+  readonly name = "S3";
+
+  constructor(private readonly config: S3Config) {}
+
+  async store(data: Buffer, fileName: string): Promise<StoredImage> {
+    return uploadToS3(data, fileName, this.config);
+  }
+}
+
+/**
+ * Copy images into a directory inside the project and return paths relative to the project root,
+ * so they can be imported or referenced directly from source.
+ */
+export class LocalStorage implements ImageStorage {
+  readonly name = "local";
+  private readonly outputDir: string;
+
+  constructor(
+    outputDir: string,
+    private readonly projectDir: string = process.cwd(),
+  ) {
+    this.outputDir = path.resolve(projectDir, outputDir);
+    const relativeDir = path.relative(path.resolve(projectDir), this.outputDir);
+    if (relativeDir.startsWith("..") || path.isAbsolute(relativeDir)) {
+      throw new Error("Invalid image output directory. Directory traversal is not allowed.");
+    }
+  }
+
+  async store(data: Buffer, fileName: string): Promise<StoredImage> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    // Write to a unique temporary name first, so concurrent requests for the same file name never
+    // leave a partially written image behind
+    const destination = path.join(this.outputDir, path.basename(fileName));
+    const tempPath = `${destination}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, destination);
+
+    const relativePath = path.relative(this.projectDir, destination).split(path.sep).join("/");
+    Logger.log(`Saved image to ${relativePath}`);
+
+    return { url: relativePath, key: relativePath };
+  }
+}
+
+/**
+ * Inline small images as data URIs. Images over the size limit go to the fallback storage, or are
+ * rejected if there is none.
+ */
+export class DataUriStorage implements ImageStorage {
+  readonly name = "inline";
+
+  constructor(
+    private readonly maxBytes: number,
+    private readonly fallback?: ImageStorage,
+  ) {}
+
+  async store(data: Buffer, fileName: string): Promise<StoredImage> {
+    if (data.length > this.maxBytes) {
+      if (this.fallback) {
+        Logger.log(
+          `${fileName} is ${data.length} bytes, over the ${this.maxBytes} byte inline limit. Using ${this.fallback.name} storage.`,
+        );
+        return this.fallback.store(data, fileName);
+      }
+      throw new Error(
+        `${fileName} is ${data.length} bytes, over the ${this.maxBytes} byte inline limit`,
+      );
+    }
+
+    return {
+      url: `data:${getContentType(fileName)};base64,${data.toString("base64")}`,
+      key: fileName,
+    };
+  }
+}
+
+/**
+ * Get image storage from environment variables.
+ *
+ * IMAGE_STORAGE selects the backend:
+ * - "s3": upload to S3 or an S3-compatible endpoint (see getS3ConfigFromEnv)
+ * - "local": copy into IMAGE_OUTPUT_DIR (default "./figma-images") relative to the working directory
+ * - "inline": return data URIs for images up to IMAGE_INLINE_MAX_BYTES (default 8192), storing
+ *   larger images with S3 if configured, otherwise locally
+ *
+ * When unset, S3 is used if configured, otherwise local storage.
+ *
+ * @param options.fileKey - Figma file key substituted for "{fileKey}" in the S3 key prefix
+ */
+export function getImageStorageFromEnv({ fileKey }: { fileKey?: string } = {}): ImageStorage {
+  const storageType = process.env.IMAGE_STORAGE?.toLowerCase();
+  const s3Config = getS3ConfigFromEnv();
+  if (s3Config?.keyPrefix) {
+    s3Config.keyPrefix = s3Config.keyPrefix
+      .replace(/\{fileKey\}/g, fileKey ?? "")
+      .replace(/\/{2,}/g, "/");
+  }
+  const localStorage = () => new LocalStorage(process.env.IMAGE_OUTPUT_DIR || "./figma-images");
+
+  switch (storageType) {
+    case "s3":
+      if (!s3Config) {
+        throw new Error(
+          "S3 configuration not found. Required environment variables: AWS_REGION, AWS_BUCKET_NAME, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY",
+        );
+      }
+      return new S3Storage(s3Config);
+    case "local":
+      return localStorage();
+    case "inline": {
+      const maxBytes = parseInt(process.env.IMAGE_INLINE_MAX_BYTES ?? "", 10);
+      return new DataUriStorage(
+        maxBytes > 0 ? maxBytes : 8192,
+        s3Config ? new S3Storage(s3Config) : localStorage(),
+      );
+    }
+    case undefined:
+    case "":
+      return s3Config ? new S3Storage(s3Config) : localStorage();
+    default:
+      throw new Error(
+        `Unknown IMAGE_STORAGE "${process.env.IMAGE_STORAGE}". Expected "s3", "local" or "inline".`,
+      );
+  }
+}
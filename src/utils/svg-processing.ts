@@ -0,0 +1,627 @@
+export type SvgOptimizeOptions = {
+  /**
+   * Replace the fill and stroke color with currentColor when the SVG uses a single color,
+   * so icons can be recolored with CSS
+   */
+  currentColor?: boolean;
+  /**
+   * Decimal places kept in path data and point lists (default 3)
+   */
+  precision?: number;
+};
+
+export type SvgOptimizeResult = {
+  svg: string;
+  bytesBefore: number;
+  bytesAfter: number;
+  log: string[];
+};
+
+const COLOR_ATTRIBUTE = /\b(fill|stroke)="([^"]*)"/g;
+const COLOR_STYLE = /\b(fill|stroke)\s*:\s*([^;"]+)/g;
+const NON_COLOR_VALUES = new Set(["none", "currentcolor", "transparent", "inherit"]);
+// Colors inside clip paths and masks only shape the content, so they're never recolored
+const CLIP_AND_MASK = /<(clipPath|mask)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Sanitize and minify an SVG rendered by Figma.
+ *
+ * See sanitizeSvg for what sanitizing keeps. Minifying strips unreferenced IDs, rounds path
+ * coordinates and collapses whitespace between tags.
+ */
+export function optimizeSvg(svg: string, options: SvgOptimizeOptions = {}): SvgOptimizeResult {
+  const { currentColor = false, precision = 3 } = options;
+  const log: string[] = [];
+  const bytesBefore = Buffer.byteLength(svg);
+  let output = svg;
+
+  // Sanitize
+  const sanitized = sanitizeSvg(output);
+  output = sanitized.svg;
+  log.push(...sanitized.log);
+
+  const embeddedRasters = output.match(/data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=]+/gi);
+  if (embeddedRasters) {
+    const rasterBytes = embeddedRasters.reduce((total, uri) => total + uri.length, 0);
+    log.push(
+      `Contains ${embeddedRasters.length} embedded raster image(s) (${rasterBytes} bytes), consider exporting them separately`,
+    );
+  }
+
+  const referencedIds = new Set(
+    [...output.matchAll(/(?:url\(\s*['"]?#|href\s*=\s*["']#)([^'")\s]+)/g)].map((m) => m[1]),
+  );
+  output = output.replace(/\sid="([^"]*)"/g, (match, id) => (referencedIds.has(id) ? match : ""));
+
+  // Minify
+  output = output.replace(/\s(d|points)="([^"]*)"/g, (_match, attribute, value) => {
+    return ` ${attribute}="${minifyPathData(value, precision)}"`;
+  });
+  output = output
+    .replace(/<g>\s*<\/g>/g, "")
+    .replace(/>\s+</g, "><")
+    .trim();
+
+  if (currentColor) {
+    const colors = getPaintColors(output.replace(CLIP_AND_MASK, ""));
+    if (colors.size === 1) {
+      const [color] = colors;
+      output = replaceOutside(output, CLIP_AND_MASK, (segment) =>
+        segment
+          .replace(COLOR_ATTRIBUTE, (match, property, value) =>
+            isColor(value) ? `${property}="currentColor"` : match,
+          )
+          .replace(COLOR_STYLE, (match, property, value) =>
+            isColor(value) ? `${property}:currentColor` : match,
+          ),
+      );
+      log.push(`Replaced ${color} with currentColor`);
+    } else if (colors.size > 1) {
+      log.push(`Kept colors, SVG uses ${colors.size} colors so it can't use currentColor`);
+    }
+  }
+
+  const bytesAfter = Buffer.byteLength(output);
+  const saved = bytesBefore - bytesAfter;
+  log.unshift(
+    `Optimized SVG: ${bytesBefore} -> ${bytesAfter} bytes (${
+      bytesBefore ? Math.round((saved / bytesBefore) * 100) : 0
+    }% smaller)`,
+  );
+
+  return { svg: output, bytesBefore, bytesAfter, log };
+}
+
+// Elements kept by sanitizeSvg, keyed by lowercase name since HTML parsers match SVG names
+// case-insensitively when the markup is inlined
+const ALLOWED_ELEMENTS = toCanonicalMap([
+  "svg",
+  "g",
+  "defs",
+  "symbol",
+  "use",
+  "title",
+  "desc",
+  "path",
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+  "image",
+  "text",
+  "tspan",
+  "textPath",
+  "clipPath",
+  "mask",
+  "pattern",
+  "linearGradient",
+  "radialGradient",
+  "stop",
+  "filter",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+]);
+
+// Dropped along with their content without being reported; they only carry metadata
+const SILENT_ELEMENTS = new Set(["metadata"]);
+
+const ALLOWED_ATTRIBUTES = toCanonicalMap([
+  "id",
+  "class",
+  "style",
+  "xmlns",
+  "xmlns:xlink",
+  "version",
+  "xml:space",
+  "x",
+  "y",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "fx",
+  "fy",
+  "fr",
+  "d",
+  "points",
+  "pathLength",
+  "width",
+  "height",
+  "viewBox",
+  "preserveAspectRatio",
+  "transform",
+  "href",
+  "xlink:href",
+  "opacity",
+  "display",
+  "visibility",
+  "overflow",
+  "color",
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "paint-order",
+  "vector-effect",
+  "shape-rendering",
+  "mix-blend-mode",
+  "isolation",
+  "clip-path",
+  "clip-rule",
+  "clipPathUnits",
+  "mask",
+  "mask-type",
+  "maskUnits",
+  "maskContentUnits",
+  "gradientUnits",
+  "gradientTransform",
+  "spreadMethod",
+  "offset",
+  "stop-color",
+  "stop-opacity",
+  "patternUnits",
+  "patternContentUnits",
+  "patternTransform",
+  "filter",
+  "filterUnits",
+  "primitiveUnits",
+  "color-interpolation-filters",
+  "in",
+  "in2",
+  "result",
+  "stdDeviation",
+  "dx",
+  "dy",
+  "values",
+  "type",
+  "mode",
+  "operator",
+  "k1",
+  "k2",
+  "k3",
+  "k4",
+  "flood-color",
+  "flood-opacity",
+  "radius",
+  "tableValues",
+  "slope",
+  "intercept",
+  "amplitude",
+  "exponent",
+  "baseFrequency",
+  "numOctaves",
+  "seed",
+  "stitchTiles",
+  "scale",
+  "xChannelSelector",
+  "yChannelSelector",
+  "order",
+  "kernelMatrix",
+  "divisor",
+  "bias",
+  "targetX",
+  "targetY",
+  "edgeMode",
+  "preserveAlpha",
+  "surfaceScale",
+  "diffuseConstant",
+  "specularConstant",
+  "specularExponent",
+  "lighting-color",
+  "azimuth",
+  "elevation",
+  "z",
+  "pointsAtX",
+  "pointsAtY",
+  "pointsAtZ",
+  "limitingConeAngle",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "font-style",
+  "letter-spacing",
+  "word-spacing",
+  "text-anchor",
+  "dominant-baseline",
+  "text-decoration",
+  "startOffset",
+]);
+
+const HREF_ATTRIBUTES = new Set(["href", "xlink:href"]);
+const EMBEDDED_RASTER = /^data:image\/(png|jpe?g|gif|webp);/i;
+
+type SanitizeCounts = {
+  elements: Map<string, number>;
+  handlers: number;
+  attributes: number;
+  externalRefs: number;
+};
+
+/**
+ * Rebuild an SVG from an allowlist of elements and attributes.
+ *
+ * The markup is tokenized rather than pattern-matched, so unquoted and entity-encoded values are
+ * seen the way a browser sees them. Elements outside the allowlist (scripts, styles,
+ * foreignObject, animations, links) are dropped with their content, including unclosed ones.
+ * Event handlers and unknown attributes are dropped, and only same-document or embedded raster
+ * references survive in href and url() values. Comments, doctypes and processing instructions
+ * are removed.
+ */
+export function sanitizeSvg(svg: string): { svg: string; log: string[] } {
+  const counts: SanitizeCounts = {
+    elements: new Map(),
+    handlers: 0,
+    attributes: 0,
+    externalRefs: 0,
+  };
+  const openElements: string[] = [];
+  // Name and depth of a disallowed element whose content is being skipped
+  let skipping: { name: string; depth: number } | undefined;
+  let output = "";
+  let index = 0;
+
+  const countElement = (name: string) => {
+    if (!SILENT_ELEMENTS.has(name)) {
+      counts.elements.set(name, (counts.elements.get(name) ?? 0) + 1);
+    }
+  };
+
+  while (index < svg.length) {
+    const tagStart = svg.indexOf("<", index);
+    if (tagStart === -1) {
+      if (!skipping) output += escapeText(svg.slice(index));
+      break;
+    }
+    if (!skipping) output += escapeText(svg.slice(index, tagStart));
+
+    // Comments, CDATA, doctypes (with any internal subset) and processing instructions
+    const special = matchSpecial(svg, tagStart);
+    if (special) {
+      if (special.text !== undefined && !skipping) output += escapeText(special.text);
+      index = special.end;
+      continue;
+    }
+
+    const tag = readTag(svg, tagStart);
+    if (!tag) {
+      // A lone "<" is text
+      if (!skipping) output += "&lt;";
+      index = tagStart + 1;
+      continue;
+    }
+    index = tag.end;
+    const name = tag.name.toLowerCase();
+
+    if (skipping) {
+      if (name === skipping.name && !tag.selfClosing) {
+        skipping.depth += tag.closing ? -1 : 1;
+        if (skipping.depth === 0) skipping = undefined;
+      }
+      continue;
+    }
+
+    if (tag.closing) {
+      const openIndex = openElements.lastIndexOf(name);
+      if (openIndex === -1) continue;
+      while (openElements.length > openIndex) {
+        output += `</${ALLOWED_ELEMENTS.get(openElements.pop()!)}>`;
+      }
+      continue;
+    }
+
+    const canonicalName = ALLOWED_ELEMENTS.get(name);
+    if (!canonicalName) {
+      countElement(name);
+      if (!tag.selfClosing) skipping = { name, depth: 1 };
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag.attributes, counts);
+    // Images without a usable source render nothing
+    if (name === "image" && !attributes.some(([attribute]) => HREF_ATTRIBUTES.has(attribute))) {
+      if (!tag.selfClosing) skipping = { name, depth: 1 };
+      continue;
+    }
+
+    const serialized = attributes
+      .map(([attribute, value]) => ` ${attribute}="${escapeAttribute(value)}"`)
+      .join("");
+    if (tag.selfClosing) {
+      output += `<${canonicalName}${serialized}/>`;
+    } else {
+      output += `<${canonicalName}${serialized}>`;
+      openElements.push(name);
+    }
+  }
+
+  while (openElements.length > 0) {
+    output += `</${ALLOWED_ELEMENTS.get(openElements.pop()!)}>`;
+  }
+
+  const log: string[] = [];
+  for (const [name, count] of counts.elements) {
+    log.push(`Removed ${count} ${name} element(s)`);
+  }
+  if (counts.handlers) log.push(`Removed ${counts.handlers} event handler attribute(s)`);
+  if (counts.attributes) log.push(`Removed ${counts.attributes} disallowed attribute(s)`);
+  if (counts.externalRefs) log.push(`Removed ${counts.externalRefs} external reference(s)`);
+
+  return { svg: output, log };
+}
+
+function toCanonicalMap(names: string[]): Map<string, string> {
+  return new Map(names.map((name) => [name.toLowerCase(), name]));
+}
+
+function matchSpecial(svg: string, start: number): { end: number; text?: string } | undefined {
+  const skipTo = (terminator: string, from: number) => {
+    const end = svg.indexOf(terminator, from);
+    return end === -1 ? svg.length : end + terminator.length;
+  };
+
+  if (svg.startsWith("<!--", start)) return { end: skipTo("-->", start + 4) };
+  if (svg.startsWith("<![CDATA[", start)) {
+    const end = skipTo("]]>", start + 9);
+    return { end, text: svg.slice(start + 9, Math.max(end - 3, start + 9)) };
+  }
+  if (svg.startsWith("<?", start)) return { end: skipTo("?>", start + 2) };
+  if (svg.startsWith("<!", start)) {
+    // A doctype may declare entities in an internal subset between brackets
+    const bracket = svg.indexOf("[", start);
+    const close = svg.indexOf(">", start);
+    if (bracket !== -1 && (close === -1 || bracket < close)) {
+      return { end: skipTo(">", skipTo("]", bracket)) };
+    }
+    return { end: skipTo(">", start + 2) };
+  }
+  return undefined;
+}
+
+type Tag = {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: Array<[string, string]>;
+  end: number;
+};
+
+/**
+ * Read a start or end tag at `start`, following the HTML rules for attribute values: quoted with
+ * either quote, or unquoted up to whitespace or ">"
+ */
+function readTag(svg: string, start: number): Tag | undefined {
+  const nameMatch = /^<(\/?)([A-Za-z][\w:.-]*)/.exec(svg.slice(start, start + 256));
+  if (!nameMatch) return undefined;
+
+  const tag: Tag = {
+    name: nameMatch[2],
+    closing: nameMatch[1] === "/",
+    selfClosing: false,
+    attributes: [],
+    end: svg.length,
+  };
+
+  let index = start + nameMatch[0].length;
+  while (index < svg.length) {
+    const char = svg[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === ">") {
+      tag.end = index + 1;
+      return tag;
+    } else if (char === "/") {
+      if (svg[index + 1] === ">") {
+        tag.selfClosing = true;
+        tag.end = index + 2;
+        return tag;
+      }
+      index++;
+    } else {
+      const attributeMatch = /^[^\s=>/]+/.exec(svg.slice(index));
+      const attribute = attributeMatch ? attributeMatch[0] : char;
+      index += attribute.length;
+      while (/\s/.test(svg[index] ?? "")) index++;
+
+      let value = "";
+      if (svg[index] === "=") {
+        index++;
+        while (/\s/.test(svg[index] ?? "")) index++;
+        const quote = svg[index];
+        if (quote === '"' || quote === "'") {
+          const close = svg.indexOf(quote, index + 1);
+          const end = close === -1 ? svg.length : close;
+          value = svg.slice(index + 1, end);
+          index = end + 1;
+        } else {
+          const unquoted = /^[^\s>]*/.exec(svg.slice(index))![0];
+          value = unquoted;
+          index += unquoted.length;
+        }
+      }
+      tag.attributes.push([attribute, decodeEntities(value)]);
+    }
+  }
+
+  // Unterminated tags run to the end of the input
+  return tag;
+}
+
+function sanitizeAttributes(
+  attributes: Array<[string, string]>,
+  counts: SanitizeCounts,
+): Array<[string, string]> {
+  const kept: Array<[string, string]> = [];
+  const seen = new Set<string>();
+
+  for (const [rawName, value] of attributes) {
+    const name = rawName.toLowerCase();
+    if (name.startsWith("on")) {
+      counts.handlers++;
+      continue;
+    }
+    const canonicalName = ALLOWED_ATTRIBUTES.get(name);
+    if (!canonicalName) {
+      counts.attributes++;
+      continue;
+    }
+    // Browsers use the first of duplicate attributes; keep the same one
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    if (HREF_ATTRIBUTES.has(name)) {
+      const href = value.trim();
+      if (!href.startsWith("#") && !EMBEDDED_RASTER.test(href)) {
+        counts.externalRefs++;
+        continue;
+      }
+      kept.push([canonicalName, href]);
+      continue;
+    }
+
+    if (name === "style" && /\\|@import|expression\s*\(|javascript:/i.test(value)) {
+      counts.attributes++;
+      continue;
+    }
+
+    kept.push([
+      canonicalName,
+      value.replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, () => {
+        counts.externalRefs++;
+        return "none";
+      }),
+    ]);
+  }
+
+  return kept;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;");
+}
+
+/**
+ * Round numbers in path data and drop separators that aren't needed, e.g.
+ * "M 10.00000 20.123456 L -5 6" -> "M10 20.123L-5 6"
+ */
+function minifyPathData(value: string, precision: number): string {
+  return value
+    .replace(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi, (number) => {
+      const rounded = Number(parseFloat(number).toFixed(precision));
+      return String(Object.is(rounded, -0) ? 0 : rounded);
+    })
+    .replace(/\s*([a-zA-Z])\s*/g, "$1")
+    .replace(/[\s,]+/g, " ")
+    .replace(/ (-)/g, "$1")
+    .trim();
+}
+
+/**
+ * Apply a transform to the parts of a string that don't match a pattern
+ */
+function replaceOutside(
+  input: string,
+  pattern: RegExp,
+  transform: (segment: string) => string,
+): string {
+  let result = "";
+  let lastIndex = 0;
+  for (const match of input.matchAll(pattern)) {
+    result += transform(input.slice(lastIndex, match.index)) + match[0];
+    lastIndex = match.index + match[0].length;
+  }
+  return result + transform(input.slice(lastIndex));
+}
+
+function isColor(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  return normalized !== "" && !NON_COLOR_VALUES.has(normalized) && !normalized.startsWith("url(");
+}
+
+function getPaintColors(svg: string): Set<string> {
+  const colors = new Set<string>();
+  for (const pattern of [COLOR_ATTRIBUTE, COLOR_STYLE]) {
+    for (const [, , value] of svg.matchAll(pattern)) {
+      if (isColor(value)) colors.add(value.trim().toLowerCase());
+    }
+  }
+  return colors;
+}